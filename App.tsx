@@ -1,15 +1,97 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { SoundPadData, PadColor } from './types';
+import { SoundPadData, PadSettings, PadBank, BoardSettings, DEFAULT_BOARD_SETTINGS, PlaybackPolicy, CueList, AVAILABLE_COLORS } from './types';
 import Pad from './components/Pad';
 import EditModal from './components/EditModal';
-import { savePadToDB, getPadsFromDB, deletePadFromDB } from './utils/db';
-import { stopAllSounds, fadeOutAllSounds, setMasterVolume, playAudioBlob } from './utils/audio';
+import BankSwitcher from './components/BankSwitcher';
+import BoardSettingsPanel from './components/BoardSettingsPanel';
+import NowPlaying from './components/NowPlaying';
+import MasterMeter from './components/MasterMeter';
+import SessionRecorderControl from './components/SessionRecorderControl';
+import CueListPanel from './components/CueListPanel';
+import ShortcutCheatSheet from './components/ShortcutCheatSheet';
+import PadContextMenu from './components/PadContextMenu';
+import FileDropSummary from './components/FileDropSummary';
+import ImportBoardDialog, { ImportResult } from './components/ImportBoardDialog';
+import { savePadToDB, getPadsFromDB, deletePadFromDB, saveBankToDB, getBanksFromDB, deleteBankFromDB, saveSettingsToDB, getSettingsFromDB, importBoardToDB, saveCueListToDB, getCueListsFromDB, deleteCueListFromDB, writePadsToDB } from './utils/db';
+import { stopAllSounds, fadeOutAllSounds, setMasterVolume, subscribeToVoices, ActiveVoice, preloadAudioBlob, measureAudioBlob, decodeAudioBlob, setDuckingSettings, setMasterDynamics } from './utils/audio';
+import { setLoudnessTarget, analyzeLoudness } from './utils/loudness';
+import { collectDroppedFiles, getNameFromFile, isFileDrag, FileDropResult, SkippedFile } from './utils/fileDrop';
+import { startSession, stopSession, formatCueSheet } from './utils/sessionRecorder';
+import { invalidatePadBuffers, setCacheBudget } from './utils/bufferCache';
+import { exportBoard, parseBoardArchive, planBoardImport, BoardArchive, ImportMode, BOARD_ARCHIVE_EXTENSION } from './utils/boardArchive';
+import { pressPad, releasePad } from './utils/trigger';
+import { loadCueList, goCue, stopCues, setStandby, subscribeToCuePlayer, getCuePlayerState, CuePlayerState } from './utils/cuePlayer';
+import { createCueList } from './utils/cueLists';
+import { recordHistory, takeUndo, takeRedo, clearHistory, subscribeToHistory, HistoryEntry, HistoryState, PadChange } from './utils/history';
+import { initMidi, subscribeToMidi, findPadByMidiBinding, isSameMidiBinding, findMidiConflicts } from './utils/midi';
+import { startGamepadPolling, subscribeToGamepad, findPadByGamepadBinding, isSameGamepadBinding, findGamepadConflicts } from './utils/gamepad';
+import { DEFAULT_BANK, createBank, createEmptyPad, buildBoardPads, sortBanks, makePadId, getPadIndex, placePad, copyPadTo } from './utils/banks';
+import { setLocalSpeechEndpoint } from './services/localSpeechService';
+import { getEventShortcut, findReservedShortcut, findPadByShortcut, findShortcutConflicts, getActivePadShortcuts, matchShortcutStep, loadKeyboardLayout, RESERVED_SHORTCUTS, ShortcutAction, CHORD_TIMEOUT_MS } from './utils/shortcuts';
 
-const TOTAL_PADS = 16; // 4x4 Grid
+// Summarises the playback policies of the loaded pads for the status line
+const describePlaybackModes = (pads: SoundPadData[]): string => {
+  const loaded = pads.filter(p => p.audioBlob);
+  const count = (policy: PlaybackPolicy) => loaded.filter(p => (p.playbackPolicy || PlaybackPolicy.SOLO) === policy).length;
+  const solo = count(PlaybackPolicy.SOLO);
+  const layer = count(PlaybackPolicy.LAYER);
+  const choke = count(PlaybackPolicy.CHOKE);
+
+  if (layer === 0 && choke === 0) return 'Solo Mode Active';
+  if (solo === 0 && choke === 0) return 'Layer Mode Active';
+  if (solo === 0 && layer === 0) return 'Choke Groups Active';
+
+  const parts = [];
+  if (solo) parts.push(`${solo} solo`);
+  if (layer) parts.push(`${layer} layered`);
+  if (choke) parts.push(`${choke} choked`);
+  return `Mixed: ${parts.join(', ')}`;
+};
+
+// Pushes the board's mix settings (bed ducking, master dynamics) to the audio engine
+const applyMixSettings = (settings: BoardSettings) => {
+  setDuckingSettings({ depthDb: settings.duckDepthDb, attack: settings.duckAttack, release: settings.duckRelease });
+  setMasterDynamics({
+    compressor: settings.masterCompressor,
+    compressorThreshold: settings.compressorThreshold,
+    limiter: settings.masterLimiter,
+    limiterThreshold: settings.limiterThreshold,
+  });
+};
+
+// Stop All also cancels cue pre-waits, so nothing starts after the board goes quiet
+const stopAll = () => {
+  stopCues();
+  stopAllSounds();
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Decode pads one at a time, in board order (the first bank is active on load)
+const preloadPads = async (pads: SoundPadData[]) => {
+  for (const pad of pads) {
+    if (pad.audioBlob) await preloadAudioBlob(pad.audioBlob, pad.id);
+  }
+};
 
 const App: React.FC = () => {
   const [pads, setPads] = useState<SoundPadData[]>([]);
   const [isEditMode, setIsEditMode] = useState(false);
+
+  // Bank State
+  const [banks, setBanks] = useState<PadBank[]>([DEFAULT_BANK]);
+  const [activeBankId, setActiveBankId] = useState(DEFAULT_BANK.id);
+
+  // Board Settings (grid size etc.)
+  const [boardSettings, setBoardSettings] = useState<BoardSettings>(DEFAULT_BOARD_SETTINGS);
+  const padCount = boardSettings.rows * boardSettings.cols;
   
   // Audio State
   const [masterVolume, setMasterVolumeState] = useState(1.0);
@@ -18,41 +100,170 @@ const App: React.FC = () => {
   // Visual Trigger State (for keyboard feedback)
   const [triggeredPadId, setTriggeredPadId] = useState<string | null>(null);
 
+  // Running voices, used to show latched and looping pads
+  const [activeVoices, setActiveVoices] = useState<ActiveVoice[]>([]);
+
   // Modal State
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingPadId, setEditingPadId] = useState<string | null>(null);
 
-  // Ref for pads to access in event listeners
+  // Board Import State
+  const [importArchive, setImportArchive] = useState<BoardArchive | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  // Session Recording State
+  const [isSessionRecording, setIsSessionRecording] = useState(false);
+  const [isSavingSession, setIsSavingSession] = useState(false);
+
+  // Cue lists
+  const [cueLists, setCueLists] = useState<CueList[]>([]);
+  const [activeCueListId, setActiveCueListId] = useState<string | null>(null);
+  const [isCuePanelOpen, setIsCuePanelOpen] = useState(false);
+  const [cuePlayerState, setCuePlayerState] = useState<CuePlayerState>(getCuePlayerState);
+
+  // Shortcut cheat sheet
+  const [isCheatSheetOpen, setIsCheatSheetOpen] = useState(false);
+
+  // Pad copied for pasting into another slot, audio included
+  const [copiedPad, setCopiedPad] = useState<SoundPadData | null>(null);
+  const [padMenu, setPadMenu] = useState<{ padId: string; x: number; y: number } | null>(null);
+
+  // Files skipped by the last drop of audio files
+  const [fileDropResult, setFileDropResult] = useState<FileDropResult | null>(null);
+
+  // Undo/redo
+  const [historyState, setHistoryState] = useState<HistoryState>({ undoLabel: null, redoLabel: null });
+  // Latest handlers for the keyboard listener, which is only attached once
+  const undoRedoRef = useRef({ undo: () => {}, redo: () => {} });
+
+  // Refs to access current state in event listeners
   const padsRef = useRef<SoundPadData[]>([]);
+  const banksRef = useRef<PadBank[]>([DEFAULT_BANK]);
+  const activeBankIdRef = useRef(DEFAULT_BANK.id);
+  const boardSettingsRef = useRef<BoardSettings>(DEFAULT_BOARD_SETTINGS);
+  const fadeDurationRef = useRef(fadeDuration);
+  const isCuePanelOpenRef = useRef(isCuePanelOpen);
 
-  // Update ref when pads change
+  // Update refs when state changes
   useEffect(() => {
     padsRef.current = pads;
   }, [pads]);
 
+  useEffect(() => {
+    banksRef.current = banks;
+  }, [banks]);
+
+  useEffect(() => {
+    activeBankIdRef.current = activeBankId;
+  }, [activeBankId]);
+
+  useEffect(() => {
+    boardSettingsRef.current = boardSettings;
+  }, [boardSettings]);
+
+  useEffect(() => {
+    fadeDurationRef.current = fadeDuration;
+  }, [fadeDuration]);
+
+  useEffect(() => {
+    isCuePanelOpenRef.current = isCuePanelOpen;
+  }, [isCuePanelOpen]);
+
+  useEffect(() => subscribeToVoices(setActiveVoices), []);
+
+  useEffect(() => subscribeToCuePlayer(setCuePlayerState), []);
+
+  useEffect(() => subscribeToHistory(setHistoryState), []);
+
+  // Keep the cue player on the selected list; pads are looked up as each cue fires
+  const activeCueList = cueLists.find(l => l.id === activeCueListId) || null;
+  useEffect(() => {
+    loadCueList(activeCueList, padId => padsRef.current.find(p => p.id === padId));
+  }, [activeCueList]);
+
   // Global Keyboard Listener
   useEffect(() => {
+    // Pads started from the keyboard, keyed by physical key, so key up releases the same pad
+    const heldKeys = new Map<string, SoundPadData>();
+    // Steps of a chord typed so far, cleared if the next key doesn't come in time
+    let pendingChord: string[] = [];
+    let chordTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const runShortcutAction = (action: ShortcutAction, combo: string) => {
+      const bankList = banksRef.current;
+      const currentIndex = bankList.findIndex(b => b.id === activeBankIdRef.current);
+      let targetIndex = -1;
+
+      switch (action) {
+        case ShortcutAction.STOP_ALL:
+          stopAll();
+          return;
+        case ShortcutAction.FADE:
+          fadeOutAllSounds(fadeDurationRef.current);
+          return;
+        case ShortcutAction.CUE_GO:
+          goCue();
+          return;
+        case ShortcutAction.CHEAT_SHEET:
+          setIsCheatSheetOpen(open => !open);
+          return;
+        case ShortcutAction.UNDO:
+          undoRedoRef.current.undo();
+          return;
+        case ShortcutAction.REDO:
+          undoRedoRef.current.redo();
+          return;
+        case ShortcutAction.PREVIOUS_BANK:
+          targetIndex = (currentIndex - 1 + bankList.length) % bankList.length;
+          break;
+        case ShortcutAction.NEXT_BANK:
+          targetIndex = (currentIndex + 1) % bankList.length;
+          break;
+        case ShortcutAction.JUMP_TO_BANK:
+          targetIndex = parseInt(combo.slice(-1), 10) - 1;
+          break;
+      }
+
+      if (targetIndex >= 0 && targetIndex < bankList.length) {
+        setActiveBankId(bankList[targetIndex].id);
+      }
+    };
+
     const handleGlobalKeyDown = (e: KeyboardEvent) => {
       // Ignore if user is typing in an input/textarea
       if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+
+      // Auto-repeat would retrigger pads while a key is held
+      if (e.repeat) return;
       
-      // Ignore standalone modifiers
-      if (['Control', 'Shift', 'Alt', 'Meta'].includes(e.key)) return;
-
-      const parts = [];
-      if (e.ctrlKey) parts.push('Ctrl');
-      if (e.shiftKey) parts.push('Shift');
-      if (e.altKey) parts.push('Alt');
-      if (e.metaKey) parts.push('Meta');
-
-      let key = e.key;
-      if (key === ' ') key = 'Space';
-      if (key.length === 1) key = key.toUpperCase();
-      
-      parts.push(key);
-      const combo = parts.join('+');
+      const step = getEventShortcut(e);
+      if (!step) return;
+
+      // App bindings win over pads; Space is only GO while the cue list is open
+      const reservedCombos = RESERVED_SHORTCUTS
+        .filter(r => r.action !== ShortcutAction.CUE_GO || isCuePanelOpenRef.current)
+        .flatMap(r => r.combos);
+      const padShortcuts = getActivePadShortcuts(padsRef.current, activeBankIdRef.current);
+
+      const { match, pending } = matchShortcutStep(pendingChord, step, [...reservedCombos, ...padShortcuts]);
+      if (chordTimer) clearTimeout(chordTimer);
+      pendingChord = pending;
+      if (pending.length > 0) {
+        // Part way through a chord: hold the key back and wait for the next one
+        e.preventDefault();
+        chordTimer = setTimeout(() => { pendingChord = []; }, CHORD_TIMEOUT_MS);
+        return;
+      }
+      if (!match) return;
 
-      const pad = padsRef.current.find(p => p.shortcut === combo);
+      const reserved = reservedCombos.includes(match) ? findReservedShortcut(match) : undefined;
+      if (reserved) {
+        e.preventDefault();
+        runShortcutAction(reserved.action, match);
+        return;
+      }
+
+      const pad = findPadByShortcut(padsRef.current, match, activeBankIdRef.current);
       
       // If we found a pad with this shortcut and it has audio
       if (pad && pad.audioBlob) {
@@ -62,40 +273,193 @@ const App: React.FC = () => {
         setTriggeredPadId(pad.id);
         setTimeout(() => setTriggeredPadId(null), 200);
 
-        // Play Sound (Solo Logic is built into playAudioBlob)
-        playAudioBlob(pad.audioBlob, pad.volume);
+        // Play Sound (trigger mode and playback policy are applied downstream)
+        heldKeys.set(e.code, pad);
+        pressPad(pad);
       }
     };
 
+    const handleGlobalKeyUp = (e: KeyboardEvent) => {
+      const pad = heldKeys.get(e.code);
+      if (!pad) return;
+      heldKeys.delete(e.code);
+      releasePad(pad);
+    };
+
+    // Keys released while the window is unfocused never fire keyup
+    const handleBlur = () => {
+      pendingChord = [];
+      heldKeys.forEach(pad => releasePad(pad));
+      heldKeys.clear();
+    };
+
     window.addEventListener('keydown', handleGlobalKeyDown);
-    return () => window.removeEventListener('keydown', handleGlobalKeyDown);
+    window.addEventListener('keyup', handleGlobalKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleGlobalKeyDown);
+      window.removeEventListener('keyup', handleGlobalKeyUp);
+      window.removeEventListener('blur', handleBlur);
+      if (chordTimer) clearTimeout(chordTimer);
+    };
   }, []);
 
-  // Initialize Pads
+  // MIDI Controller Listener
   useEffect(() => {
-    const initPads = async () => {
-      // Create skeleton pads
-      const skeletonPads: SoundPadData[] = Array.from({ length: TOTAL_PADS }, (_, i) => ({
-        id: `pad-${i}`,
-        name: 'Empty',
-        color: PadColor.SLATE,
-        volume: 1.0,
-      }));
+    // Pads started from a note, keyed by note, so note off releases the same pad
+    const heldNotes = new Map<string, SoundPadData>();
+
+    // Board settings shows whether this worked
+    initMidi();
+
+    return subscribeToMidi(({ binding, value, isOn }) => {
+      const mappings = boardSettingsRef.current.midiMappings;
+
+      if (isSameMidiBinding(mappings.masterVolume, binding)) {
+        const volume = Math.round((value / 127) * 100) / 100;
+        setMasterVolumeState(volume);
+        setMasterVolume(volume);
+        return;
+      }
+      if (isSameMidiBinding(mappings.stopAll, binding)) {
+        if (isOn) stopAll();
+        return;
+      }
+      if (isSameMidiBinding(mappings.fade, binding)) {
+        if (isOn) fadeOutAllSounds(fadeDurationRef.current);
+        return;
+      }
+
+      const noteKey = `${binding.type}:${binding.channel}:${binding.number}`;
+      if (!isOn) {
+        const held = heldNotes.get(noteKey);
+        if (held) {
+          heldNotes.delete(noteKey);
+          releasePad(held);
+        }
+        return;
+      }
+      // Controls sending a stream of CC values only press once per crossing
+      if (heldNotes.has(noteKey)) return;
 
+      const pad = findPadByMidiBinding(padsRef.current, binding, activeBankIdRef.current);
+      if (!pad) return;
+
+      setTriggeredPadId(pad.id);
+      setTimeout(() => setTriggeredPadId(null), 200);
+
+      heldNotes.set(noteKey, pad);
+      pressPad(pad, pad.midiVelocity ? value / 127 : 1);
+    });
+  }, []);
+
+  // Gamepad / Foot Switch Listener
+  useEffect(() => {
+    // Pads started from a button, so releasing that button releases the same pad
+    const heldInputs = new Map<string, SoundPadData>();
+
+    startGamepadPolling();
+
+    return subscribeToGamepad(({ binding, isPressed }) => {
+      const mappings = boardSettingsRef.current.gamepadMappings;
+
+      if (isSameGamepadBinding(mappings.stopAll, binding)) {
+        if (isPressed) stopAll();
+        return;
+      }
+      if (isSameGamepadBinding(mappings.fade, binding)) {
+        if (isPressed) fadeOutAllSounds(fadeDurationRef.current);
+        return;
+      }
+      if (isSameGamepadBinding(mappings.nextBank, binding)) {
+        if (!isPressed) return;
+        const bankList = banksRef.current;
+        const currentIndex = bankList.findIndex(b => b.id === activeBankIdRef.current);
+        setActiveBankId(bankList[(currentIndex + 1) % bankList.length].id);
+        return;
+      }
+
+      const inputKey = `${binding.type}:${binding.index}:${binding.direction ?? ''}`;
+      if (!isPressed) {
+        const held = heldInputs.get(inputKey);
+        if (held) {
+          heldInputs.delete(inputKey);
+          releasePad(held);
+        }
+        return;
+      }
+
+      const pad = findPadByGamepadBinding(padsRef.current, binding, activeBankIdRef.current);
+      if (!pad) return;
+
+      setTriggeredPadId(pad.id);
+      setTimeout(() => setTriggeredPadId(null), 200);
+
+      heldInputs.set(inputKey, pad);
+      pressPad(pad);
+    });
+  }, []);
+
+  // Pads saved before loudness analysis existed are measured once, in the background
+  const measureUnanalysedPads = async (boardPads: SoundPadData[]) => {
+    for (const pad of boardPads) {
+      if (!pad.audioBlob || pad.loudness) continue;
+      const loudness = await measureAudioBlob(pad.audioBlob, pad.id);
+      // Skip pads that were edited or cleared while this one was being measured
+      const current = padsRef.current.find(p => p.id === pad.id);
+      if (!loudness || !current || current.audioBlob !== pad.audioBlob) continue;
+
+      const measured = { ...current, loudness };
+      setPads(prev => prev.map(p => p.id === pad.id ? measured : p));
       try {
-        const storedPads = await getPadsFromDB();
-        // Merge stored pads into skeleton
-        const merged = skeletonPads.map(sk => {
-          const found = storedPads.find(sp => sp.id === sk.id);
-          return found ? found : sk;
-        });
-        setPads(merged);
+        await savePadToDB(measured);
       } catch (e) {
-        console.error("Failed to load pads from DB", e);
-        setPads(skeletonPads);
+        console.error("Failed to save loudness to DB", e);
       }
-    };
-    initPads();
+    }
+  };
+
+  // Load the whole board (banks, settings, pads) from the database
+  const loadBoard = async () => {
+    try {
+      let storedBanks = await getBanksFromDB();
+      if (storedBanks.length === 0) {
+        // First run (or a board from before banks existed)
+        storedBanks = [DEFAULT_BANK];
+        await saveBankToDB(DEFAULT_BANK);
+      }
+      const sortedBanks = sortBanks(storedBanks);
+      const storedSettings = await getSettingsFromDB();
+      const settings = { ...DEFAULT_BOARD_SETTINGS, ...storedSettings };
+      const storedPads = await getPadsFromDB();
+      // Before the pads render, so shortcut labels match this keyboard
+      await loadKeyboardLayout();
+      // Merge stored pads into a skeleton for every bank
+      setBoardSettings(settings);
+      setBanks(sortedBanks);
+      setActiveBankId(sortedBanks[0].id);
+      const boardPads = buildBoardPads(sortedBanks, storedPads, settings.rows * settings.cols);
+      setPads(boardPads);
+
+      // Pre-decode loaded pads in the background so presses start instantly
+      setCacheBudget(settings.cacheBudgetSeconds);
+      setLoudnessTarget(settings.normalizeLoudness ? settings.targetLufs : null);
+      applyMixSettings(settings);
+      setLocalSpeechEndpoint(settings.speechEndpoint);
+      preloadPads(boardPads).then(() => measureUnanalysedPads(boardPads));
+
+      const storedCueLists = await getCueListsFromDB();
+      setCueLists(storedCueLists);
+      setActiveCueListId(prev => storedCueLists.some(l => l.id === prev) ? prev : storedCueLists[0]?.id ?? null);
+    } catch (e) {
+      console.error("Failed to load pads from DB", e);
+      setPads(buildBoardPads([DEFAULT_BANK], [], DEFAULT_BOARD_SETTINGS.rows * DEFAULT_BOARD_SETTINGS.cols));
+    }
+  };
+
+  // Initialize Pads
+  useEffect(() => {
+    loadBoard();
   }, []);
 
   const handleEditPad = (id: string) => {
@@ -103,32 +467,59 @@ const App: React.FC = () => {
     setIsModalOpen(true);
   };
 
-  const handleSavePad = async (name: string, color: string, blob: Blob | null, volume: number, shortcut?: string) => {
+  const handleSavePad = async (settings: PadSettings, blob: Blob | null) => {
     if (!editingPadId) return;
 
     // Determine if we are updating an existing pad with data or creating new
     const existingPad = pads.find(p => p.id === editingPadId);
+    if (!existingPad) return;
     
     // If no blob is provided and we are just changing name/color/volume, keep old blob
-    const finalBlob = blob || existingPad?.audioBlob;
+    const finalBlob = blob || existingPad.audioBlob;
 
     if (!finalBlob) return; // Should probably validate this in modal
 
+    // New audio: drop the old decoded buffer. Measuring decodes the new one, so
+    // it's also ready ahead of the first press.
+    if (blob) invalidatePadBuffers(editingPadId);
+    const loudness = (!blob && existingPad.loudness) || await measureAudioBlob(finalBlob, editingPadId);
+
     const newPadData: SoundPadData = {
+      ...settings,
       id: editingPadId,
-      name,
-      color,
-      volume,
-      shortcut, // Save shortcut
-      audioBlob: finalBlob
+      bankId: existingPad.bankId,
+      audioBlob: finalBlob,
+      loudness,
     };
 
+    // The editor has already confirmed taking the shortcut and controller bindings off any pad that clashes
+    const shortcutClashes = new Set(newPadData.shortcut ? findShortcutConflicts(pads, newPadData, newPadData.shortcut).map(p => p.id) : []);
+    const midiClashes = new Set(newPadData.midiBinding ? findMidiConflicts(pads, newPadData, newPadData.midiBinding).map(p => p.id) : []);
+    const gamepadClashes = new Set(newPadData.gamepadBinding ? findGamepadConflicts(pads, newPadData, newPadData.gamepadBinding).map(p => p.id) : []);
+    const displaced = pads
+      .filter(p => shortcutClashes.has(p.id) || midiClashes.has(p.id) || gamepadClashes.has(p.id))
+      .map(p => ({
+        ...p,
+        shortcut: shortcutClashes.has(p.id) ? undefined : p.shortcut,
+        midiBinding: midiClashes.has(p.id) ? undefined : p.midiBinding,
+        midiVelocity: midiClashes.has(p.id) ? undefined : p.midiVelocity,
+        gamepadBinding: gamepadClashes.has(p.id) ? undefined : p.gamepadBinding,
+      }));
+
+    recordHistory({
+      label: `Edit ${newPadData.name}`,
+      pads: [
+        { id: editingPadId, before: existingPad.audioBlob ? existingPad : null, after: newPadData },
+        ...displaced.map(d => ({ id: d.id, before: pads.find(p => p.id === d.id) || null, after: d })),
+      ],
+    });
+
     // Optimistic Update
-    setPads(prev => prev.map(p => p.id === editingPadId ? newPadData : p));
+    setPads(prev => prev.map(p => p.id === editingPadId ? newPadData : displaced.find(d => d.id === p.id) || p));
 
     // Persist
     try {
-      await savePadToDB(newPadData);
+      await writePadsToDB([newPadData, ...displaced]);
     } catch (e) {
       console.error("Failed to save to DB", e);
       alert("Could not save sound. Storage might be full.");
@@ -137,16 +528,19 @@ const App: React.FC = () => {
 
   const handleDeletePad = async (id: string) => {
     if (!window.confirm("Are you sure you want to clear this sound?")) return;
+
+    const pad = pads.find(p => p.id === id);
+    if (!pad) return;
     
-    // Reset to empty state
-    const emptyPad: SoundPadData = {
-        id,
-        name: 'Empty',
-        color: PadColor.SLATE,
-        volume: 1.0
-    };
+    recordHistory({ label: `Clear ${pad.name}`, pads: [{ id, before: pad, after: null }] });
+
+    // Reset to empty state; cleared overflow pads simply disappear
+    const emptyPad = createEmptyPad(id, pad.bankId);
 
-    setPads(prev => prev.map(p => p.id === id ? emptyPad : p));
+    setPads(prev => getPadIndex(id) < padCount
+      ? prev.map(p => p.id === id ? emptyPad : p)
+      : prev.filter(p => p.id !== id));
+    invalidatePadBuffers(id);
     
     try {
       await deletePadFromDB(id);
@@ -155,6 +549,363 @@ const App: React.FC = () => {
     }
   };
 
+  const handleAddBank = async () => {
+    const bank = createBank(banks);
+    const newPads = Array.from({ length: padCount }, (_, i) => createEmptyPad(makePadId(bank.id, i), bank.id));
+
+    setBanks(prev => [...prev, bank]);
+    setPads(prev => [...prev, ...newPads]);
+    setActiveBankId(bank.id);
+
+    try {
+      await saveBankToDB(bank);
+    } catch (e) {
+      console.error("Failed to save bank to DB", e);
+    }
+  };
+
+  const handleRenameBank = async (id: string) => {
+    const bank = banks.find(b => b.id === id);
+    if (!bank) return;
+
+    const name = window.prompt("Bank name:", bank.name)?.trim();
+    if (!name) return;
+
+    const renamed = { ...bank, name };
+    setBanks(prev => prev.map(b => b.id === id ? renamed : b));
+
+    try {
+      await saveBankToDB(renamed);
+    } catch (e) {
+      console.error("Failed to save bank to DB", e);
+    }
+  };
+
+  const handleDeleteBank = async (id: string) => {
+    if (banks.length <= 1) return;
+    const bank = banks.find(b => b.id === id);
+    if (!bank) return;
+    if (!window.confirm(`Delete bank "${bank.name}" and all of its sounds?`)) return;
+
+    const padIds = pads.filter(p => p.bankId === id).map(p => p.id);
+    const remaining = banks.filter(b => b.id !== id);
+
+    setBanks(remaining);
+    setPads(prev => prev.filter(p => p.bankId !== id));
+    // Undo steps could put pads back on a bank that's gone
+    clearHistory();
+    if (activeBankId === id) setActiveBankId(remaining[0].id);
+    padIds.forEach(invalidatePadBuffers);
+
+    try {
+      await deleteBankFromDB(id, padIds);
+    } catch (e) {
+      console.error("Failed to delete bank from DB", e);
+    }
+  };
+
+  const handleAddCueList = async () => {
+    const list = createCueList(cueLists);
+    setCueLists(prev => [...prev, list]);
+    setActiveCueListId(list.id);
+
+    try {
+      await saveCueListToDB(list);
+    } catch (e) {
+      console.error("Failed to save cue list to DB", e);
+    }
+  };
+
+  const handleChangeCueList = async (list: CueList) => {
+    setCueLists(prev => prev.map(l => l.id === list.id ? list : l));
+
+    try {
+      await saveCueListToDB(list);
+    } catch (e) {
+      console.error("Failed to save cue list to DB", e);
+    }
+  };
+
+  const handleRenameCueList = (id: string) => {
+    const list = cueLists.find(l => l.id === id);
+    if (!list) return;
+
+    const name = window.prompt("Cue list name:", list.name)?.trim();
+    if (!name) return;
+    handleChangeCueList({ ...list, name });
+  };
+
+  const handleDeleteCueList = async (id: string) => {
+    const list = cueLists.find(l => l.id === id);
+    if (!list) return;
+    if (!window.confirm(`Delete cue list "${list.name}"?`)) return;
+
+    const remaining = cueLists.filter(l => l.id !== id);
+    setCueLists(remaining);
+    if (activeCueListId === id) setActiveCueListId(remaining[0]?.id ?? null);
+
+    try {
+      await deleteCueListFromDB(id);
+    } catch (e) {
+      console.error("Failed to delete cue list from DB", e);
+    }
+  };
+
+  // Applies a complete set of board settings without touching the history
+  const applyBoardSettings = async (next: BoardSettings) => {
+    setBoardSettings(next);
+
+    // Rebuild the skeleton for the new grid size; loaded pads are never dropped
+    const nextPadCount = next.rows * next.cols;
+    if (nextPadCount !== padCount) {
+      setPads(prev => buildBoardPads(banks, prev.filter(p => p.audioBlob), nextPadCount));
+    }
+
+    if (next.cacheBudgetSeconds !== boardSettings.cacheBudgetSeconds) {
+      setCacheBudget(next.cacheBudgetSeconds);
+    }
+
+    // Takes effect from the next press; running voices keep their level
+    setLoudnessTarget(next.normalizeLoudness ? next.targetLufs : null);
+    applyMixSettings(next);
+    setLocalSpeechEndpoint(next.speechEndpoint);
+
+    try {
+      await saveSettingsToDB(next);
+    } catch (e) {
+      console.error("Failed to save settings to DB", e);
+    }
+  };
+
+  const handleBoardSettingsChange = (changes: Partial<BoardSettings>) => {
+    const next = { ...boardSettings, ...changes };
+    // Repeated edits of the same fields (dragging a slider, typing a number) undo together
+    recordHistory({ label: 'Board settings', settings: { before: boardSettings, after: next } }, Object.keys(changes).sort().join(','));
+    applyBoardSettings(next);
+  };
+
+  // Puts pad slots back to a recorded state, on screen and in the database
+  const restorePadChanges = async (changes: PadChange[], side: 'before' | 'after') => {
+    setPads(prev => changes.reduce((current, change) => {
+      const pad = change[side];
+      if (pad) {
+        return current.some(p => p.id === change.id)
+          ? current.map(p => p.id === change.id ? pad : p)
+          : [...current, pad];
+      }
+      // Emptied slots go back to the skeleton; emptied overflow pads disappear
+      return getPadIndex(change.id) < padCount
+        ? current.map(p => p.id === change.id ? createEmptyPad(p.id, p.bankId) : p)
+        : current.filter(p => p.id !== change.id);
+    }, prev));
+
+    // Free decoded audio that's leaving its slot
+    changes.forEach(change => {
+      const leaving = side === 'after' ? change.before : change.after;
+      if (leaving?.audioBlob && leaving.audioBlob !== change[side]?.audioBlob) invalidatePadBuffers(change.id);
+    });
+    const saved = changes.map(change => change[side]).filter((pad): pad is SoundPadData => !!pad);
+    const deleted = changes.filter(change => !change[side]).map(change => change.id);
+    try {
+      await writePadsToDB(saved, deleted);
+    } catch (e) {
+      console.error("Failed to restore pads in DB", e);
+      alert("Could not restore the sound. Storage might be full.");
+    }
+  };
+
+  // Applies slot changes made on the board and records them as one undo step
+  const commitPadChanges = (label: string, changes: PadChange[]) => {
+    recordHistory({ label, pads: changes });
+    restorePadChanges(changes, 'after');
+  };
+
+  // Drag and drop in edit mode: moves the pad, swapping with a loaded target, or copies it
+  const handleDropPad = (sourceId: string, targetId: string, duplicate: boolean) => {
+    if (sourceId === targetId) return;
+    const source = pads.find(p => p.id === sourceId);
+    const target = pads.find(p => p.id === targetId);
+    if (!source?.audioBlob || !target) return;
+    const targetBefore = target.audioBlob ? target : null;
+
+    if (duplicate) {
+      commitPadChanges(`Duplicate ${source.name}`, [
+        { id: targetId, before: targetBefore, after: copyPadTo(source, targetId, target.bankId) },
+      ]);
+      return;
+    }
+
+    commitPadChanges(targetBefore ? `Swap ${source.name} and ${targetBefore.name}` : `Move ${source.name}`, [
+      { id: targetId, before: targetBefore, after: placePad(source, targetId, target.bankId) },
+      { id: sourceId, before: source, after: targetBefore && placePad(targetBefore, sourceId, source.bankId) },
+    ]);
+  };
+
+  // Copies into the first empty slot of the pad's bank
+  const handleDuplicatePad = (id: string) => {
+    const source = pads.find(p => p.id === id);
+    if (!source?.audioBlob) return;
+    const slot = pads.find(p => p.bankId === source.bankId && !p.audioBlob && getPadIndex(p.id) < padCount);
+    if (!slot) {
+      alert(`Bank ${banks.find(b => b.id === source.bankId)?.name} has no empty slot to duplicate into.`);
+      return;
+    }
+    handleDropPad(id, slot.id, true);
+  };
+
+  const handleCopyPad = (id: string) => {
+    const pad = pads.find(p => p.id === id);
+    if (pad?.audioBlob) setCopiedPad(pad);
+  };
+
+  const handlePastePad = (targetId: string) => {
+    const target = pads.find(p => p.id === targetId);
+    if (!copiedPad || !target) return;
+    commitPadChanges(`Paste ${copiedPad.name}`, [
+      { id: targetId, before: target.audioBlob ? target : null, after: copyPadTo(copiedPad, targetId, target.bankId) },
+    ]);
+  };
+
+  // A single file dropped on a pad replaces its sound. Any other drop fills the active
+  // bank's empty pads in order, from the pad it landed on (or the first pad).
+  const handleDropFiles = async (dataTransfer: DataTransfer, targetId?: string) => {
+    const files = await collectDroppedFiles(dataTransfer);
+    if (files.length === 0) return;
+
+    const target = targetId ? pads.find(p => p.id === targetId) : undefined;
+    const startIndex = target ? getPadIndex(target.id) : 0;
+    const slots = target && files.length === 1
+      ? [target]
+      : pads
+          .filter(p => p.bankId === activeBankId && !p.audioBlob && getPadIndex(p.id) >= startIndex && getPadIndex(p.id) < padCount)
+          .sort((a, b) => getPadIndex(a.id) - getPadIndex(b.id));
+
+    const changes: PadChange[] = [];
+    const skipped: SkippedFile[] = [];
+    for (const file of files) {
+      const slot = slots[changes.length];
+      if (!slot) {
+        skipped.push({ name: file.name, reason: 'No empty pad left' });
+        continue;
+      }
+
+      let buffer: AudioBuffer;
+      try {
+        buffer = await decodeAudioBlob(file, slot.id);
+      } catch (e) {
+        skipped.push({ name: file.name, reason: "Couldn't be decoded as audio" });
+        continue;
+      }
+
+      const name = getNameFromFile(file);
+      const loudness = analyzeLoudness(buffer);
+      const pad: SoundPadData = slot.audioBlob
+        // Trims and loop points belonged to the old audio
+        ? { ...slot, name, audioBlob: file, loudness, startTime: undefined, endTime: undefined, loopStart: undefined, loopEnd: undefined }
+        : { ...createEmptyPad(slot.id, slot.bankId), name, color: AVAILABLE_COLORS[changes.length % AVAILABLE_COLORS.length].value, audioBlob: file, loudness };
+      changes.push({ id: slot.id, before: slot.audioBlob ? slot : null, after: pad });
+    }
+
+    if (changes.length > 0) {
+      const label = changes.length === 1 ? `Load ${changes[0].after!.name}` : `Load ${changes.length} sounds`;
+      commitPadChanges(label, changes);
+    }
+    if (skipped.length > 0) setFileDropResult({ loaded: changes.length, skipped });
+  };
+
+  const applyHistoryEntry = (entry: HistoryEntry, side: 'before' | 'after') => {
+    if (entry.pads) restorePadChanges(entry.pads, side);
+    if (entry.settings) applyBoardSettings(entry.settings[side]);
+  };
+
+  const handleUndo = () => {
+    const entry = takeUndo();
+    if (entry) applyHistoryEntry(entry, 'before');
+  };
+
+  const handleRedo = () => {
+    const entry = takeRedo();
+    if (entry) applyHistoryEntry(entry, 'after');
+  };
+
+  useEffect(() => {
+    undoRedoRef.current = { undo: handleUndo, redo: handleRedo };
+  });
+
+  const handleExportBoard = async () => {
+    try {
+      const archive = await exportBoard(banks, pads, boardSettings, cueLists);
+      downloadBlob(archive, `board-${new Date().toISOString().slice(0, 10)}${BOARD_ARCHIVE_EXTENSION}`);
+    } catch (e) {
+      console.error("Failed to export board", e);
+      alert("Could not export the board.");
+    }
+  };
+
+  const handleStartSession = async () => {
+    try {
+      // Cue names come from the current pads, looked up as each pad fires
+      await startSession(padId => padsRef.current.find(p => p.id === padId)?.name || 'Preview');
+      setIsSessionRecording(true);
+    } catch (e: any) {
+      console.error("Failed to start session recording", e);
+      alert(e.message || "Could not start recording.");
+    }
+  };
+
+  const handleStopSession = async () => {
+    setIsSessionRecording(false);
+    setIsSavingSession(true);
+    try {
+      const recording = await stopSession(boardSettings.sessionFormat);
+      if (!recording) return;
+      // Local time, so the file name matches the clock on the wall during the show
+      const stamp = recording.startedAt.toLocaleString('sv').replace(' ', '_').replace(/:/g, '-');
+      downloadBlob(recording.audio, `session-${stamp}.${recording.extension}`);
+      downloadBlob(new Blob([formatCueSheet(recording)], { type: 'text/csv' }), `session-${stamp}-cues.csv`);
+      if (recording.isFallback) {
+        alert(`The recording couldn't be converted to WAV, so it was saved as .${recording.extension} instead.`);
+      }
+    } catch (e) {
+      console.error("Failed to save session recording", e);
+      alert("Could not save the recording.");
+    } finally {
+      setIsSavingSession(false);
+    }
+  };
+
+  const handleImportFile = async (file: File) => {
+    try {
+      setImportArchive(await parseBoardArchive(file));
+      setImportError(null);
+    } catch (e: any) {
+      setImportArchive(null);
+      setImportError(e.message);
+    }
+  };
+
+  const handleImportBoard = async (mode: ImportMode): Promise<ImportResult> => {
+    if (!importArchive) return { imported: 0, failed: [], unbound: [] };
+
+    const replace = mode === ImportMode.REPLACE;
+    const plan = await planBoardImport(importArchive, mode, banks, pads, cueLists, padCount);
+
+    if (replace) stopAll();
+    await importBoardToDB(plan.banks, plan.pads, plan.settings, plan.cueLists, replace);
+    clearHistory();
+
+    // Replaced or newly filled pads must not play stale decoded audio
+    (replace ? pads : plan.pads).forEach(p => invalidatePadBuffers(p.id));
+    await loadBoard();
+
+    return { imported: plan.pads.length, failed: plan.failed, unbound: plan.unbound };
+  };
+
+  const handleCloseImport = () => {
+    setImportArchive(null);
+    setImportError(null);
+  };
+
   const handleMasterVolumeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const val = parseFloat(e.target.value);
     setMasterVolumeState(val);
@@ -166,6 +917,28 @@ const App: React.FC = () => {
   };
 
   const activePad = pads.find(p => p.id === editingPadId);
+  const menuPad = padMenu && pads.find(p => p.id === padMenu.padId);
+  const activeBank = banks.find(b => b.id === activeBankId);
+  const bankPads = pads.filter(p => p.bankId === activeBankId);
+  const gridPads = bankPads.filter(p => getPadIndex(p.id) < padCount);
+  const overflowPads = bankPads.filter(p => getPadIndex(p.id) >= padCount);
+
+  const renderPad = (pad: SoundPadData) => (
+    <Pad
+      key={pad.id}
+      data={pad}
+      isEditMode={isEditMode}
+      onEdit={() => handleEditPad(pad.id)}
+      onDelete={() => handleDeletePad(pad.id)}
+      onPlay={() => pressPad(pad)}
+      onRelease={() => releasePad(pad)}
+      onDropPad={(sourceId, duplicate) => handleDropPad(sourceId, pad.id, duplicate)}
+      onContextMenu={(x, y) => setPadMenu({ padId: pad.id, x, y })}
+      onDropFiles={(dataTransfer) => handleDropFiles(dataTransfer, pad.id)}
+      isTriggered={triggeredPadId === pad.id}
+      voice={activeVoices.filter(v => v.padId === pad.id).pop()}
+    />
+  );
 
   return (
     <div className="min-h-screen bg-gray-950 text-gray-100 font-sans selection:bg-blue-500 selection:text-white flex flex-col">
@@ -205,10 +978,35 @@ const App: React.FC = () => {
                   className="w-20 lg:w-32 h-1.5 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-blue-500"
                   title={`Master Volume: ${Math.round(masterVolume * 100)}%`}
                 />
+                <MasterMeter isActive={activeVoices.length > 0} />
              </div>
 
              <div className="h-8 w-px bg-gray-700 mx-1 hidden sm:block"></div>
 
+             {/* Undo / Redo */}
+             <div className="hidden sm:flex bg-gray-800 rounded-lg p-1 border border-gray-700">
+                <button
+                   onClick={handleUndo}
+                   disabled={!historyState.undoLabel}
+                   className="px-2 py-1 rounded-md text-gray-400 hover:text-white disabled:opacity-30 disabled:hover:text-gray-400"
+                   title={historyState.undoLabel ? `Undo ${historyState.undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+                >
+                   <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a5 5 0 015 5v2M3 10l5-5m-5 5l5 5" />
+                   </svg>
+                </button>
+                <button
+                   onClick={handleRedo}
+                   disabled={!historyState.redoLabel}
+                   className="px-2 py-1 rounded-md text-gray-400 hover:text-white disabled:opacity-30 disabled:hover:text-gray-400"
+                   title={historyState.redoLabel ? `Redo ${historyState.redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                >
+                   <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a5 5 0 00-5 5v2m15-7l-5-5m5 5l-5 5" />
+                   </svg>
+                </button>
+             </div>
+
              {/* Mode Toggle */}
              <div className="flex bg-gray-800 rounded-lg p-1 border border-gray-700">
                 <button
@@ -244,17 +1042,43 @@ const App: React.FC = () => {
                <button
                  onClick={handleFadeOut}
                  className="bg-orange-600 hover:bg-orange-700 text-white px-3 py-1.5 rounded-md font-bold text-xs uppercase shadow-lg shadow-orange-900/30 transition-all active:scale-95"
-                 title={`Fade out over ${fadeDuration} seconds`}
+                 title={`Fade out over ${fadeDuration} seconds (Shift+Esc)`}
                >
                  Fade
                </button>
              </div>
 
+             {/* Shortcut Cheat Sheet */}
+             <button
+               onClick={() => setIsCheatSheetOpen(true)}
+               className="hidden sm:block w-8 h-8 rounded-lg border bg-gray-800 border-gray-700 text-gray-400 hover:text-white text-sm font-bold transition-colors"
+               title="Show shortcuts (?)"
+             >
+               ?
+             </button>
+
+             {/* Cue List Toggle */}
+             <button
+               onClick={() => setIsCuePanelOpen(open => !open)}
+               className={`px-2 py-1.5 rounded-lg border text-xs font-bold transition-colors ${isCuePanelOpen ? 'bg-green-900/40 border-green-600 text-green-300' : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'}`}
+               title={isCuePanelOpen ? 'Hide the cue list' : 'Show the cue list (Space is GO while it is open)'}
+             >
+               CUES
+             </button>
+
+             {/* Session Recorder */}
+             <SessionRecorderControl
+               isRecording={isSessionRecording}
+               isSaving={isSavingSession}
+               onStart={handleStartSession}
+               onStop={handleStopSession}
+             />
+
              {/* Stop All Button */}
              <button
-               onClick={stopAllSounds}
+               onClick={stopAll}
                className="flex items-center space-x-2 bg-red-600 hover:bg-red-700 text-white px-3 py-1.5 lg:px-4 lg:py-2 rounded-lg font-bold shadow-lg shadow-red-900/50 transition-all transform active:scale-95 ml-2 border border-red-500"
-               title="Stop All Currently Playing Sounds Immediately"
+               title="Stop All Currently Playing Sounds Immediately (Esc)"
              >
                 <svg className="w-4 h-4 lg:w-5 lg:h-5 fill-current" viewBox="0 0 24 24">
                   <path d="M6 6h12v12H6z" />
@@ -264,19 +1088,36 @@ const App: React.FC = () => {
              </button>
           </div>
         </div>
+
+        {/* Bank Switcher */}
+        <div className="max-w-6xl mx-auto px-4 pb-2">
+          <BankSwitcher
+            banks={banks}
+            activeBankId={activeBankId}
+            isEditMode={isEditMode}
+            onSelect={setActiveBankId}
+            onAdd={handleAddBank}
+            onRename={handleRenameBank}
+            onDelete={handleDeleteBank}
+          />
+          <NowPlaying voices={activeVoices} pads={pads} />
+        </div>
       </header>
 
       {/* Main Grid */}
       <main className="flex-1 p-4 md:p-8 flex items-center justify-center">
-        <div className="w-full max-w-2xl">
+        {/* Wide grids get more room so pads stay a usable size */}
+        <div className="w-full" style={{ maxWidth: `${Math.max(42, boardSettings.cols * 9)}rem` }}>
           {/* Status Bar */}
           <div className="mb-6 flex flex-col sm:flex-row justify-between items-start sm:items-end gap-4">
              <div>
-                <h2 className="text-2xl font-bold text-white mb-1">Soundboard</h2>
+                <h2 className="text-2xl font-bold text-white mb-1">
+                  Soundboard <span className="text-gray-500 font-medium">/ {activeBank?.name}</span>
+                </h2>
                 <p className="text-gray-400 text-sm">
                    {isEditMode 
                      ? 'Select a pad to edit its sound or appearance.' 
-                     : 'Click pads or use shortcuts to play (Solo Mode Active).'}
+                     : `Click pads or use shortcuts to play (${describePlaybackModes(bankPads)}).`}
                 </p>
              </div>
              
@@ -295,20 +1136,62 @@ const App: React.FC = () => {
              </div>
           </div>
 
+          {isEditMode && (
+            <BoardSettingsPanel
+              settings={boardSettings}
+              pads={pads}
+              onChange={handleBoardSettingsChange}
+              onExport={handleExportBoard}
+              onImportFile={handleImportFile}
+            />
+          )}
+
+          {isCuePanelOpen && (
+            <CueListPanel
+              lists={cueLists}
+              activeListId={activeCueListId}
+              pads={pads}
+              banks={banks}
+              playerState={cuePlayerState}
+              onSelectList={setActiveCueListId}
+              onAddList={handleAddCueList}
+              onRenameList={handleRenameCueList}
+              onDeleteList={handleDeleteCueList}
+              onChangeList={handleChangeCueList}
+              onGo={() => goCue()}
+              onStop={stopCues}
+              onStandby={setStandby}
+            />
+          )}
+
           {/* Grid */}
-          <div className="grid grid-cols-4 gap-3 sm:gap-4 md:gap-6">
-            {pads.map((pad) => (
-              <Pad
-                key={pad.id}
-                data={pad}
-                isEditMode={isEditMode}
-                onEdit={() => handleEditPad(pad.id)}
-                onDelete={() => handleDeletePad(pad.id)}
-                onPlay={() => {}} // Local play is handled by Pad click, logic is in Pad
-                isTriggered={triggeredPadId === pad.id}
-              />
-            ))}
+          <div
+            className="grid gap-3 sm:gap-4 md:gap-6"
+            style={{ gridTemplateColumns: `repeat(${boardSettings.cols}, minmax(0, 1fr))` }}
+            onDragOver={(e) => {
+              if (!isFileDrag(e.dataTransfer)) return;
+              e.preventDefault();
+              e.dataTransfer.dropEffect = 'copy';
+            }}
+            onDrop={(e) => {
+              if (!isFileDrag(e.dataTransfer)) return;
+              e.preventDefault();
+              handleDropFiles(e.dataTransfer);
+            }}
+          >
+            {gridPads.map(renderPad)}
           </div>
+
+          {/* Overflow: loaded pads that don't fit the current grid size */}
+          {overflowPads.length > 0 && (
+            <div className="mt-8 pt-6 border-t border-gray-800">
+              <h3 className="text-sm font-bold text-gray-300 uppercase tracking-wider mb-1">Overflow ({overflowPads.length})</h3>
+              <p className="text-gray-500 text-xs mb-4">These pads sit outside the current grid. Enlarge the grid to put them back in place.</p>
+              <div className="grid grid-cols-4 sm:grid-cols-6 gap-3 sm:gap-4">
+                {overflowPads.map(renderPad)}
+              </div>
+            </div>
+          )}
         </div>
       </main>
 
@@ -322,10 +1205,41 @@ const App: React.FC = () => {
         isOpen={isModalOpen}
         onClose={() => setIsModalOpen(false)}
         onSave={handleSavePad}
-        initialName={activePad?.name}
-        initialColor={activePad?.color}
-        initialVolume={activePad?.volume}
-        initialShortcut={activePad?.shortcut}
+        pad={activePad}
+        pads={pads}
+        midiMappings={boardSettings.midiMappings}
+        gamepadMappings={boardSettings.gamepadMappings}
+      />
+
+      {menuPad && padMenu && isEditMode && (
+        <PadContextMenu
+          pad={menuPad}
+          x={padMenu.x}
+          y={padMenu.y}
+          copiedPad={copiedPad}
+          onCopy={() => handleCopyPad(menuPad.id)}
+          onPaste={() => handlePastePad(menuPad.id)}
+          onDuplicate={() => handleDuplicatePad(menuPad.id)}
+          onClear={() => handleDeletePad(menuPad.id)}
+          onClose={() => setPadMenu(null)}
+        />
+      )}
+
+      <FileDropSummary result={fileDropResult} onClose={() => setFileDropResult(null)} />
+
+      <ShortcutCheatSheet
+        isOpen={isCheatSheetOpen}
+        pads={pads}
+        banks={banks}
+        settings={boardSettings}
+        onClose={() => setIsCheatSheetOpen(false)}
+      />
+
+      <ImportBoardDialog
+        archive={importArchive}
+        error={importError}
+        onImport={handleImportBoard}
+        onClose={handleCloseImport}
       />
     </div>
   );
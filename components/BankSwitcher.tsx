@@ -0,0 +1,56 @@
+import React from 'react';
+import { PadBank } from '../types';
+
+interface BankSwitcherProps {
+  banks: PadBank[];
+  activeBankId: string;
+  isEditMode: boolean;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onRename: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const BankSwitcher: React.FC<BankSwitcherProps> = ({ banks, activeBankId, isEditMode, onSelect, onAdd, onRename, onDelete }) => {
+  return (
+    <div className="flex items-center space-x-1 overflow-x-auto">
+      <span className="text-[10px] text-gray-500 uppercase font-bold mr-1">Bank</span>
+      {banks.map((bank, i) => {
+        const isActive = bank.id === activeBankId;
+        return (
+          <div key={bank.id} className="relative flex items-center">
+            <button
+              onClick={() => onSelect(bank.id)}
+              onDoubleClick={() => isEditMode && onRename(bank.id)}
+              className={`px-3 py-1 rounded-md text-xs font-bold transition-all whitespace-nowrap ${isActive ? 'bg-blue-600 text-white shadow' : 'bg-gray-800 text-gray-400 hover:text-white border border-gray-700'}`}
+              title={i < 9 ? `Alt+${i + 1}${isEditMode ? ' (double-click to rename)' : ''}` : undefined}
+            >
+              {bank.name}
+            </button>
+            {isEditMode && isActive && banks.length > 1 && (
+              <button
+                onClick={() => onDelete(bank.id)}
+                className="ml-1 text-gray-500 hover:text-red-400 text-xs px-1"
+                title="Delete Bank"
+              >
+                ×
+              </button>
+            )}
+          </div>
+        );
+      })}
+      {isEditMode && (
+        <button
+          onClick={onAdd}
+          className="px-2 py-1 rounded-md text-xs font-bold text-gray-400 hover:text-white border border-dashed border-gray-600 hover:border-blue-500"
+          title="Add Bank"
+        >
+          +
+        </button>
+      )}
+      <span className="hidden md:inline text-[10px] text-gray-600 pl-2">PgUp / PgDn to switch</span>
+    </div>
+  );
+};
+
+export default BankSwitcher;
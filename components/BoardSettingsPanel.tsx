@@ -0,0 +1,408 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BoardSettings, MidiMappings, GamepadMappings, SessionFormat, SoundPadData, MidiBinding, GamepadBinding } from '../types';
+import { BOARD_ARCHIVE_EXTENSION } from '../utils/boardArchive';
+import { initMidi, subscribeToMidiInputs, MidiStatus, findMidiMapping, formatMidiBinding, isSameMidiBinding, MIDI_MAPPING_LABELS } from '../utils/midi';
+import { subscribeToGamepads, findGamepadMapping, formatGamepadBinding, isSameGamepadBinding, GAMEPAD_MAPPING_LABELS } from '../utils/gamepad';
+import CacheStatsReadout from './CacheStatsReadout';
+import MidiLearnButton from './MidiLearnButton';
+import GamepadLearnButton from './GamepadLearnButton';
+
+interface BoardSettingsPanelProps {
+  settings: BoardSettings;
+  pads: SoundPadData[]; // For controller bindings already taken by pads
+  onChange: (changes: Partial<BoardSettings>) => void;
+  onExport: () => void;
+  onImportFile: (file: File) => void;
+}
+
+const GRID_PRESETS = [
+  { label: '4×4', rows: 4, cols: 4 },
+  { label: '8×4', rows: 4, cols: 8 },
+  { label: '6×6', rows: 6, cols: 6 },
+  { label: '3×4', rows: 4, cols: 3 },
+];
+
+const MAX_GRID_SIZE = 8;
+
+const MIDI_CONTROLS: { key: keyof MidiMappings; label: string }[] = [
+  { key: 'stopAll', label: 'Stop All' },
+  { key: 'fade', label: 'Fade' },
+  { key: 'masterVolume', label: 'Master volume (CC)' },
+];
+
+const GAMEPAD_CONTROLS: { key: keyof GamepadMappings; label: string }[] = [
+  { key: 'stopAll', label: 'Stop All' },
+  { key: 'fade', label: 'Fade' },
+  { key: 'nextBank', label: 'Next bank' },
+];
+
+// Names of the pads that already answer to a binding, quoted for a message
+const describePads = (pads: SoundPadData[]) => pads.map(p => `"${p.name}"`).join(', ');
+
+const BoardSettingsPanel: React.FC<BoardSettingsPanelProps> = ({ settings, pads, onChange, onExport, onImportFile }) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const sizeOptions = Array.from({ length: MAX_GRID_SIZE }, (_, i) => i + 1);
+  const [midiInputs, setMidiInputs] = useState<string[]>([]);
+  const [midiStatus, setMidiStatus] = useState<MidiStatus | null>(null);
+
+  const [gamepads, setGamepads] = useState<string[]>([]);
+
+  useEffect(() => subscribeToMidiInputs(setMidiInputs), []);
+  useEffect(() => {
+    // Already requested by the app; this only picks up the outcome
+    let cancelled = false;
+    initMidi().then(status => { if (!cancelled) setMidiStatus(status); });
+    return () => { cancelled = true; };
+  }, []);
+  useEffect(() => subscribeToGamepads(setGamepads), []);
+
+  // A board action can't share its control with another action or a pad; only one of them would fire
+  const handleMidiMappingChange = (key: keyof MidiMappings, binding: MidiBinding | undefined) => {
+    if (binding) {
+      const label = formatMidiBinding(binding);
+      const other = findMidiMapping({ ...settings.midiMappings, [key]: undefined }, binding);
+      if (other) {
+        alert(`${label} is already mapped to "${MIDI_MAPPING_LABELS[other]}".`);
+        return;
+      }
+      const users = pads.filter(p => isSameMidiBinding(p.midiBinding, binding));
+      if (users.length > 0) {
+        alert(`${label} already triggers ${describePads(users)}. Clear it on the pad first or learn another control.`);
+        return;
+      }
+    }
+    onChange({ midiMappings: { ...settings.midiMappings, [key]: binding } });
+  };
+
+  const handleGamepadMappingChange = (key: keyof GamepadMappings, binding: GamepadBinding | undefined) => {
+    if (binding) {
+      const label = formatGamepadBinding(binding);
+      const other = findGamepadMapping({ ...settings.gamepadMappings, [key]: undefined }, binding);
+      if (other) {
+        alert(`${label} is already mapped to "${GAMEPAD_MAPPING_LABELS[other]}".`);
+        return;
+      }
+      const users = pads.filter(p => isSameGamepadBinding(p.gamepadBinding, binding));
+      if (users.length > 0) {
+        alert(`${label} already triggers ${describePads(users)}. Clear it on the pad first or learn another input.`);
+        return;
+      }
+    }
+    onChange({ gamepadMappings: { ...settings.gamepadMappings, [key]: binding } });
+  };
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-xl p-4 mb-6 space-y-4">
+      {/* Grid Size */}
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-xs text-gray-400 uppercase font-bold">Grid</span>
+        <label className="flex items-center space-x-2 text-sm text-gray-300">
+          <span>Rows</span>
+          <select
+            value={settings.rows}
+            onChange={(e) => onChange({ rows: parseInt(e.target.value, 10) })}
+            className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {sizeOptions.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-gray-300">
+          <span>Columns</span>
+          <select
+            value={settings.cols}
+            onChange={(e) => onChange({ cols: parseInt(e.target.value, 10) })}
+            className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {sizeOptions.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <div className="flex space-x-1">
+          {GRID_PRESETS.map(preset => {
+            const isActive = preset.rows === settings.rows && preset.cols === settings.cols;
+            return (
+              <button
+                key={preset.label}
+                onClick={() => onChange({ rows: preset.rows, cols: preset.cols })}
+                className={`px-2 py-1 rounded text-xs font-mono transition-colors ${isActive ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white border border-gray-700'}`}
+                title={`${preset.cols} columns × ${preset.rows} rows`}
+              >
+                {preset.label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Decoded Audio Cache */}
+      <div className="pt-4 border-t border-gray-800 space-y-2">
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-xs text-gray-400 uppercase font-bold">Audio Cache</span>
+          <label className="flex items-center space-x-2 text-sm text-gray-300">
+            <span>Budget</span>
+            <input
+              type="number"
+              min="0"
+              step="30"
+              value={settings.cacheBudgetSeconds}
+              onChange={(e) => {
+                const seconds = parseInt(e.target.value, 10);
+                if (!isNaN(seconds)) onChange({ cacheBudgetSeconds: seconds });
+              }}
+              className="w-20 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <span className="text-gray-500">seconds of decoded audio</span>
+          </label>
+        </div>
+        <CacheStatsReadout />
+      </div>
+
+      {/* Loudness Normalization */}
+      <div className="pt-4 border-t border-gray-800 flex flex-wrap items-center gap-3">
+        <span className="text-xs text-gray-400 uppercase font-bold">Loudness</span>
+        <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={settings.normalizeLoudness}
+            onChange={(e) => onChange({ normalizeLoudness: e.target.checked })}
+            className="accent-blue-500"
+          />
+          <span>Normalize pads to</span>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-gray-300">
+          <input
+            type="number"
+            min="-40"
+            max="-5"
+            step="1"
+            value={settings.targetLufs}
+            disabled={!settings.normalizeLoudness}
+            onChange={(e) => {
+              const lufs = parseFloat(e.target.value);
+              if (!isNaN(lufs)) onChange({ targetLufs: lufs });
+            }}
+            className="w-20 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+          />
+          <span className="text-gray-500">LUFS (pad volume stays as a trim)</span>
+        </label>
+      </div>
+
+      {/* Bed Ducking */}
+      <div className="pt-4 border-t border-gray-800 flex flex-wrap items-center gap-3">
+        <span className="text-xs text-gray-400 uppercase font-bold">Ducking</span>
+        <label className="flex items-center space-x-2 text-sm text-gray-300">
+          <span>Depth</span>
+          <input
+            type="number"
+            min="0"
+            max="60"
+            step="1"
+            value={settings.duckDepthDb}
+            onChange={(e) => {
+              const db = parseFloat(e.target.value);
+              if (!isNaN(db) && db >= 0) onChange({ duckDepthDb: db });
+            }}
+            className="w-16 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <span className="text-gray-500">dB</span>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-gray-300">
+          <span>Attack</span>
+          <input
+            type="number"
+            min="0"
+            max="10"
+            step="0.05"
+            value={settings.duckAttack}
+            onChange={(e) => {
+              const seconds = parseFloat(e.target.value);
+              if (!isNaN(seconds) && seconds >= 0) onChange({ duckAttack: seconds });
+            }}
+            className="w-16 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <span className="text-gray-500">s</span>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-gray-300">
+          <span>Release</span>
+          <input
+            type="number"
+            min="0"
+            max="10"
+            step="0.05"
+            value={settings.duckRelease}
+            onChange={(e) => {
+              const seconds = parseFloat(e.target.value);
+              if (!isNaN(seconds) && seconds >= 0) onChange({ duckRelease: seconds });
+            }}
+            className="w-16 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <span className="text-gray-500">s</span>
+        </label>
+        <span className="text-xs text-gray-500">Beds dip while any other pad plays</span>
+      </div>
+
+      {/* Master Dynamics */}
+      <div className="pt-4 border-t border-gray-800 flex flex-wrap items-center gap-3">
+        <span className="text-xs text-gray-400 uppercase font-bold">Master</span>
+        <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={settings.masterCompressor}
+            onChange={(e) => onChange({ masterCompressor: e.target.checked })}
+            className="accent-blue-500"
+          />
+          <span>Compressor at</span>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-gray-300">
+          <input
+            type="number"
+            min="-60"
+            max="0"
+            step="1"
+            value={settings.compressorThreshold}
+            disabled={!settings.masterCompressor}
+            onChange={(e) => {
+              const db = parseFloat(e.target.value);
+              if (!isNaN(db) && db <= 0) onChange({ compressorThreshold: db });
+            }}
+            className="w-16 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+          />
+          <span className="text-gray-500">dB</span>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={settings.masterLimiter}
+            onChange={(e) => onChange({ masterLimiter: e.target.checked })}
+            className="accent-blue-500"
+          />
+          <span>Limiter at</span>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-gray-300">
+          <input
+            type="number"
+            min="-30"
+            max="0"
+            step="0.5"
+            value={settings.limiterThreshold}
+            disabled={!settings.masterLimiter}
+            onChange={(e) => {
+              const db = parseFloat(e.target.value);
+              if (!isNaN(db) && db <= 0) onChange({ limiterThreshold: db });
+            }}
+            className="w-16 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+          />
+          <span className="text-gray-500">dB</span>
+        </label>
+      </div>
+
+      {/* Session Recording */}
+      <div className="pt-4 border-t border-gray-800 flex flex-wrap items-center gap-3">
+        <span className="text-xs text-gray-400 uppercase font-bold">Session</span>
+        <label className="flex items-center space-x-2 text-sm text-gray-300">
+          <span>Save recordings as</span>
+          <select
+            value={settings.sessionFormat}
+            onChange={(e) => onChange({ sessionFormat: e.target.value as SessionFormat })}
+            className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value={SessionFormat.WEBM}>WebM (Opus)</option>
+            <option value={SessionFormat.WAV}>WAV</option>
+          </select>
+        </label>
+        <span className="text-xs text-gray-500">A cue log (CSV) of every pad fired is saved alongside</span>
+      </div>
+
+      {/* Speech */}
+      <div className="pt-4 border-t border-gray-800 flex flex-wrap items-center gap-3">
+        <span className="text-xs text-gray-400 uppercase font-bold">Speech</span>
+        <label className="flex items-center space-x-2 text-sm text-gray-300">
+          <span>Local server</span>
+          <input
+            type="url"
+            value={settings.speechEndpoint}
+            onChange={(e) => onChange({ speechEndpoint: e.target.value })}
+            placeholder="http://localhost:5002"
+            className="w-64 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+        <span className="text-xs text-gray-500">Used by the Local server voice option in the AI tab</span>
+      </div>
+
+      {/* MIDI Controls */}
+      <div className="pt-4 border-t border-gray-800 space-y-2">
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-xs text-gray-400 uppercase font-bold">MIDI</span>
+          <span className="text-xs text-gray-500">
+            {midiStatus === 'unsupported' ? 'Not supported in this browser'
+              : midiStatus === 'denied' ? 'MIDI access was blocked; allow it in the site settings'
+              : midiInputs.length > 0 ? midiInputs.join(', ') : 'No controller connected'}
+          </span>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          {MIDI_CONTROLS.map(control => (
+            <label key={control.key} className="block text-sm text-gray-300 space-y-1">
+              <span>{control.label}</span>
+              <MidiLearnButton
+                binding={settings.midiMappings[control.key]}
+                onChange={(binding) => handleMidiMappingChange(control.key, binding)}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Gamepad / Foot Switch Controls */}
+      <div className="pt-4 border-t border-gray-800 space-y-2">
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-xs text-gray-400 uppercase font-bold">Gamepad</span>
+          <span className="text-xs text-gray-500">
+            {gamepads.length > 0 ? gamepads.join(', ') : 'No gamepad detected (press a button to wake it)'}
+          </span>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          {GAMEPAD_CONTROLS.map(control => (
+            <label key={control.key} className="block text-sm text-gray-300 space-y-1">
+              <span>{control.label}</span>
+              <GamepadLearnButton
+                binding={settings.gamepadMappings[control.key]}
+                onChange={(binding) => handleGamepadMappingChange(control.key, binding)}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Export / Import */}
+      <div className="pt-4 border-t border-gray-800 flex flex-wrap items-center gap-3">
+        <span className="text-xs text-gray-400 uppercase font-bold">Board</span>
+        <button
+          onClick={onExport}
+          className="px-3 py-1 rounded text-sm bg-gray-800 text-gray-300 hover:text-white border border-gray-700"
+          title="Download every sound and setting as a single file"
+        >
+          Export board
+        </button>
+        <button
+          onClick={() => importInputRef.current?.click()}
+          className="px-3 py-1 rounded text-sm bg-gray-800 text-gray-300 hover:text-white border border-gray-700"
+        >
+          Import board
+        </button>
+        <input
+          type="file"
+          accept={`${BOARD_ARCHIVE_EXTENSION},application/json`}
+          className="hidden"
+          ref={importInputRef}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImportFile(file);
+            // Allow picking the same file again
+            e.target.value = '';
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default BoardSettingsPanel;
@@ -0,0 +1,40 @@
+import React, { useEffect, useState } from 'react';
+import { CacheStats, subscribeToCacheStats } from '../utils/bufferCache';
+
+const CacheStatsReadout: React.FC = () => {
+  const [stats, setStats] = useState<CacheStats | null>(null);
+
+  useEffect(() => subscribeToCacheStats(setStats), []);
+
+  if (!stats) return null;
+
+  const lookups = stats.hits + stats.misses;
+  const hitRate = lookups > 0 ? Math.round((stats.hits / lookups) * 100) : 0;
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 font-mono text-[11px] text-gray-400">
+      <div>
+        <span className="text-gray-500">hits </span>
+        <span className="text-green-400">{stats.hits}</span>
+        <span className="text-gray-500"> / miss </span>
+        <span className="text-orange-400">{stats.misses}</span>
+        <span className="text-gray-500"> ({hitRate}%)</span>
+      </div>
+      <div>
+        <span className="text-gray-500">entries </span>
+        {stats.entries}
+      </div>
+      <div>
+        <span className="text-gray-500">cached </span>
+        {stats.cachedSeconds.toFixed(1)}s / {stats.budgetSeconds}s
+      </div>
+      <div>
+        <span className="text-gray-500">decode </span>
+        {stats.lastDecodeMs.toFixed(0)}ms
+        <span className="text-gray-500"> (avg {stats.averageDecodeMs.toFixed(0)}ms)</span>
+      </div>
+    </div>
+  );
+};
+
+export default CacheStatsReadout;
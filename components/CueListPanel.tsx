@@ -0,0 +1,206 @@
+import React from 'react';
+import { Cue, CueList, PadBank, SoundPadData } from '../types';
+import { CuePlayerState } from '../utils/cuePlayer';
+import { createCue, moveCue } from '../utils/cueLists';
+
+interface CueListPanelProps {
+  lists: CueList[];
+  activeListId: string | null;
+  pads: SoundPadData[];
+  banks: PadBank[];
+  playerState: CuePlayerState;
+  onSelectList: (id: string) => void;
+  onAddList: () => void;
+  onRenameList: (id: string) => void;
+  onDeleteList: (id: string) => void;
+  onChangeList: (list: CueList) => void;
+  onGo: () => void;
+  onStop: () => void;
+  onStandby: (index: number) => void;
+}
+
+const inputClass = 'bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Blank number fields mean "unset"
+const parseOptionalSeconds = (value: string): number | undefined => {
+  const seconds = parseFloat(value);
+  return isNaN(seconds) ? undefined : Math.max(seconds, 0);
+};
+
+// Theatre-style cue list: cues fire in order from the GO button (or Space)
+const CueListPanel: React.FC<CueListPanelProps> = ({
+  lists, activeListId, pads, banks, playerState,
+  onSelectList, onAddList, onRenameList, onDeleteList, onChangeList, onGo, onStop, onStandby,
+}) => {
+  const list = lists.find(l => l.id === activeListId);
+  const loadedPads = pads.filter(p => p.audioBlob);
+  const bankName = (bankId: string) => banks.find(b => b.id === bankId)?.name || '?';
+  const standbyCue = list?.cues[playerState.standbyIndex];
+  const standbyPad = standbyCue && pads.find(p => p.id === standbyCue.padId);
+
+  const updateCue = (index: number, changes: Partial<Cue>) => {
+    if (!list) return;
+    onChangeList({ ...list, cues: list.cues.map((cue, i) => i === index ? { ...cue, ...changes } : cue) });
+  };
+
+  const removeCue = (index: number) => {
+    if (!list) return;
+    onChangeList({ ...list, cues: list.cues.filter((_, i) => i !== index) });
+  };
+
+  const addCue = () => {
+    if (!list || loadedPads.length === 0) return;
+    onChangeList({ ...list, cues: [...list.cues, createCue(loadedPads[0].id)] });
+  };
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-xl p-4 mb-6 space-y-4">
+      {/* List picker */}
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-xs text-gray-400 uppercase font-bold">Cue List</span>
+        {lists.length > 0 && (
+          <select
+            value={activeListId || ''}
+            onChange={(e) => onSelectList(e.target.value)}
+            className={inputClass}
+          >
+            {lists.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+          </select>
+        )}
+        <button onClick={onAddList} className="px-2 py-1 rounded text-xs font-bold bg-gray-800 text-gray-400 hover:text-white border border-gray-700">
+          New
+        </button>
+        {list && (
+          <>
+            <button onClick={() => onRenameList(list.id)} className="px-2 py-1 rounded text-xs font-bold bg-gray-800 text-gray-400 hover:text-white border border-gray-700">
+              Rename
+            </button>
+            <button onClick={() => onDeleteList(list.id)} className="px-2 py-1 rounded text-xs font-bold bg-gray-800 text-gray-400 hover:text-red-400 border border-gray-700">
+              Delete
+            </button>
+          </>
+        )}
+      </div>
+
+      {list && (
+        <>
+          {/* GO */}
+          <div className="flex items-stretch gap-3">
+            <button
+              onClick={onGo}
+              disabled={!standbyCue}
+              className="flex-1 sm:flex-none sm:w-48 py-4 rounded-xl bg-green-600 hover:bg-green-500 disabled:bg-gray-800 disabled:text-gray-600 text-white text-3xl font-black tracking-widest shadow-lg shadow-green-900/40 transition-all active:scale-95"
+              title="Fire the cue on standby (Space)"
+            >
+              GO
+            </button>
+            <div className="flex-1 flex flex-col justify-center min-w-0">
+              <span className="text-[10px] text-gray-500 uppercase font-bold">Standby</span>
+              <span className="text-lg text-white font-bold truncate">
+                {standbyCue ? `${playerState.standbyIndex + 1}. ${standbyPad?.name || 'Missing pad'}` : 'End of list'}
+              </span>
+              {standbyCue?.note && <span className="text-xs text-gray-400 truncate">{standbyCue.note}</span>}
+            </div>
+            <button
+              onClick={onStop}
+              className="px-3 rounded-lg text-xs font-bold bg-gray-800 text-gray-400 hover:text-white border border-gray-700"
+              title="Stop running cues and cancel pre-waits"
+            >
+              Stop Cues
+            </button>
+          </div>
+
+          {/* Cues */}
+          <div className="space-y-1">
+            {list.cues.map((cue, index) => {
+              const isStandby = index === playerState.standbyIndex;
+              const isRunning = playerState.runningCueIds.includes(cue.id);
+              const isWaiting = playerState.waitingCueIds.includes(cue.id);
+              const pad = pads.find(p => p.id === cue.padId);
+              return (
+                <div
+                  key={cue.id}
+                  onClick={() => onStandby(index)}
+                  className={`flex flex-wrap items-center gap-2 rounded-lg border px-2 py-1.5 cursor-pointer ${isStandby ? 'border-yellow-500 bg-yellow-900/20' : isRunning ? 'border-green-600 bg-green-900/20' : 'border-gray-800 bg-gray-900'}`}
+                >
+                  <span className="w-6 text-right font-mono text-sm text-gray-400">{index + 1}</span>
+                  <span className="w-16 text-[10px] uppercase font-bold">
+                    {isWaiting ? <span className="text-blue-400">Waiting</span>
+                      : isRunning ? <span className="text-green-400">Running</span>
+                      : isStandby ? <span className="text-yellow-400">Standby</span>
+                      : null}
+                  </span>
+                  <select
+                    value={cue.padId}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={(e) => updateCue(index, { padId: e.target.value })}
+                    className={`${inputClass} max-w-[12rem]`}
+                  >
+                    {!pad?.audioBlob && <option value={cue.padId}>Missing pad</option>}
+                    {loadedPads.map(p => <option key={p.id} value={p.id}>{bankName(p.bankId)} / {p.name}</option>)}
+                  </select>
+                  <label className="flex items-center space-x-1 text-xs text-gray-400" onClick={(e) => e.stopPropagation()}>
+                    <span>Wait</span>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={cue.preWait ?? ''}
+                      onChange={(e) => updateCue(index, { preWait: parseOptionalSeconds(e.target.value) })}
+                      className={`${inputClass} w-16`}
+                      title="Seconds between GO and the sound starting"
+                    />
+                  </label>
+                  <label className="flex items-center space-x-1 text-xs text-gray-400" onClick={(e) => e.stopPropagation()}>
+                    <span>Fade prev</span>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={cue.fadePrevious ?? ''}
+                      onChange={(e) => updateCue(index, { fadePrevious: parseOptionalSeconds(e.target.value) })}
+                      className={`${inputClass} w-16`}
+                      title="Fade out cues still playing over this many seconds (0 cuts them, blank leaves them)"
+                    />
+                  </label>
+                  <label className="flex items-center space-x-1 text-xs text-gray-400 cursor-pointer select-none" onClick={(e) => e.stopPropagation()}>
+                    <input
+                      type="checkbox"
+                      checked={!!cue.autoFollow}
+                      onChange={(e) => updateCue(index, { autoFollow: e.target.checked || undefined })}
+                      className="accent-blue-500"
+                    />
+                    <span>Auto-follow</span>
+                  </label>
+                  <input
+                    type="text"
+                    value={cue.note || ''}
+                    placeholder="Note"
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={(e) => updateCue(index, { note: e.target.value || undefined })}
+                    className={`${inputClass} flex-1 min-w-[6rem]`}
+                  />
+                  <div className="flex items-center" onClick={(e) => e.stopPropagation()}>
+                    <button onClick={() => onChangeList(moveCue(list, index, index - 1))} className="px-1 text-gray-500 hover:text-white" title="Move up">↑</button>
+                    <button onClick={() => onChangeList(moveCue(list, index, index + 1))} className="px-1 text-gray-500 hover:text-white" title="Move down">↓</button>
+                    <button onClick={() => removeCue(index)} className="px-1 text-gray-500 hover:text-red-400" title="Remove cue">×</button>
+                  </div>
+                </div>
+              );
+            })}
+            <button
+              onClick={addCue}
+              disabled={loadedPads.length === 0}
+              className="w-full py-1.5 rounded-lg text-xs font-bold text-gray-400 hover:text-white border border-dashed border-gray-700 hover:border-blue-500 disabled:opacity-50"
+              title={loadedPads.length === 0 ? 'Load a sound onto a pad first' : 'Add a cue'}
+            >
+              + Add Cue
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CueListPanel;
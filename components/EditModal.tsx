@@ -1,30 +1,141 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { AVAILABLE_COLORS, PadColor, ModalTab } from '../types';
-import { generateSpeech } from '../services/geminiService';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { AVAILABLE_COLORS, PadColor, ModalTab, SoundPadData, PadSettings, MidiMappings, GamepadMappings, PlaybackPolicy, CHOKE_GROUP_COUNT, TriggerMode, FadeCurve, MidiBinding, GamepadBinding, PadEffects } from '../types';
+import { getSpeechProviders, getSpeechProvider, DEFAULT_SPEECH_PROVIDER_ID, SpeechVoice } from '../services/speechProvider';
+import { decodeAudioBlob, playAudioBlob, VoiceHandle } from '../utils/audio';
+import { analyzeLoudness, getNormalizationDb, getNormalizationGain } from '../utils/loudness';
+import WaveformEditor from './WaveformEditor';
+import RecordPanel from './RecordPanel';
+import MidiLearnButton from './MidiLearnButton';
+import GamepadLearnButton from './GamepadLearnButton';
+import { getNameFromFile } from '../utils/fileDrop';
+import { getEventShortcut, findReservedShortcut, findShortcutConflicts, formatShortcutLabel, CHORD_TIMEOUT_MS, MAX_CHORD_STEPS } from '../utils/shortcuts';
+import { findMidiConflicts, findMidiMapping, formatMidiBinding, MIDI_MAPPING_LABELS } from '../utils/midi';
+import { findGamepadConflicts, findGamepadMapping, formatGamepadBinding, GAMEPAD_MAPPING_LABELS } from '../utils/gamepad';
+
+const PLAYBACK_POLICIES = [
+  { value: PlaybackPolicy.SOLO, label: 'Solo', description: 'Stops all other sounds (beds keep playing under it)' },
+  { value: PlaybackPolicy.LAYER, label: 'Layer', description: 'Plays over everything' },
+  { value: PlaybackPolicy.CHOKE, label: 'Choke', description: 'Cuts pads in the same group' },
+];
+
+const TRIGGER_MODES = [
+  { value: TriggerMode.ONE_SHOT, label: 'One-shot', description: 'Plays to the end on each press' },
+  { value: TriggerMode.TOGGLE, label: 'Toggle', description: 'Press again to stop' },
+  { value: TriggerMode.GATE, label: 'Hold', description: 'Plays only while held down' },
+  { value: TriggerMode.LOOP, label: 'Loop', description: 'Loops until pressed again' },
+];
+
+const FADE_CURVES = [
+  { value: FadeCurve.LINEAR, label: 'Linear' },
+  { value: FadeCurve.EXPONENTIAL, label: 'Exponential' },
+  { value: FadeCurve.EQUAL_POWER, label: 'Equal power' },
+];
+
+const MAX_FADE_SECONDS = 10;
+
+// Values that mean "effect off"; they're stored as undefined
+const EFFECT_DEFAULTS: Required<PadEffects> = {
+  playbackRate: 1,
+  pitch: 0,
+  pan: 0,
+  eqLow: 0,
+  eqMid: 0,
+  eqHigh: 0,
+  reverbSend: 0,
+};
+
+const formatSignedDb = (v: number) => `${v > 0 ? '+' : ''}${v} dB`;
+
+const EFFECT_SLIDERS: { key: keyof PadEffects; label: string; min: number; max: number; step: number; format: (v: number) => string }[] = [
+  { key: 'playbackRate', label: 'Speed', min: 0.5, max: 2, step: 0.05, format: v => `${v.toFixed(2)}×` },
+  { key: 'pitch', label: 'Pitch', min: -12, max: 12, step: 1, format: v => `${v > 0 ? '+' : ''}${v} st` },
+  { key: 'pan', label: 'Pan', min: -1, max: 1, step: 0.05, format: v => v === 0 ? 'Center' : `${Math.round(Math.abs(v) * 100)}% ${v < 0 ? 'L' : 'R'}` },
+  { key: 'reverbSend', label: 'Reverb', min: 0, max: 1, step: 0.05, format: v => `${Math.round(v * 100)}%` },
+  { key: 'eqLow', label: 'Low', min: -12, max: 12, step: 1, format: formatSignedDb },
+  { key: 'eqMid', label: 'Mid', min: -12, max: 12, step: 1, format: formatSignedDb },
+  { key: 'eqHigh', label: 'High', min: -12, max: 12, step: 1, format: formatSignedDb },
+];
+
+const getPadEffects = (pad?: SoundPadData): Required<PadEffects> => {
+  const effects = { ...EFFECT_DEFAULTS };
+  EFFECT_SLIDERS.forEach(({ key }) => {
+    if (pad?.[key] !== undefined) effects[key] = pad[key]!;
+  });
+  return effects;
+};
+
+// Levels shown to one decimal; gains get an explicit sign
+const formatDb = (db: number, signed = false) => `${signed && db > 0 ? '+' : ''}${db.toFixed(1)}`;
+
+// Trim points are stored to the millisecond
+const roundSeconds = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+// Empty inputs mean "not set"
+const parseOptionalSeconds = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) || parsed < 0 ? undefined : parsed;
+};
 
 interface EditModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (name: string, color: string, blob: Blob | null, volume: number, shortcut?: string) => void;
-  initialName?: string;
-  initialColor?: string;
-  initialVolume?: number;
-  initialShortcut?: string;
+  onSave: (settings: PadSettings, blob: Blob | null) => void;
+  pad?: SoundPadData; // The pad being edited
+  pads: SoundPadData[]; // Every pad on the board, for shortcut and controller conflicts
+  midiMappings: MidiMappings; // Board actions, which a pad's MIDI binding mustn't shadow
+  gamepadMappings: GamepadMappings; // Likewise for the gamepad binding
 }
 
 const EditModal: React.FC<EditModalProps> = ({ 
   isOpen, 
   onClose, 
   onSave, 
-  initialName = '', 
-  initialColor = PadColor.BLUE,
-  initialVolume = 1.0,
-  initialShortcut = ''
+  pad,
+  pads,
+  midiMappings,
+  gamepadMappings
 }) => {
+  const initialName = pad?.name ?? '';
+  const initialColor = pad?.color ?? PadColor.BLUE;
+  const initialVolume = pad?.volume ?? 1.0;
+  const initialShortcut = pad?.shortcut || '';
+  const initialIsGlobal = !!pad?.isGlobal;
+  const initialMidiBinding = pad?.midiBinding;
+  const initialMidiVelocity = !!pad?.midiVelocity;
+  const initialGamepadBinding = pad?.gamepadBinding;
+  const initialPolicy = pad?.playbackPolicy || PlaybackPolicy.SOLO;
+  const initialChokeGroup = pad?.chokeGroup ?? 1;
+  const initialIsBed = !!pad?.isBed;
+  const initialTriggerMode = pad?.triggerMode || TriggerMode.ONE_SHOT;
+  const initialLoopStart = pad?.loopStart?.toString() ?? '';
+  const initialLoopEnd = pad?.loopEnd?.toString() ?? '';
+  const initialTrimStart = pad?.startTime ?? 0;
+  const initialTrimEnd = pad?.endTime ?? null;
+  const initialFadeIn = pad?.fadeIn ?? 0;
+  const initialFadeOut = pad?.fadeOut ?? 0;
+  const initialFadeCurve = pad?.fadeCurve || FadeCurve.LINEAR;
+  const initialEffects = getPadEffects(pad);
+
   const [name, setName] = useState(initialName);
-  const [color, setColor] = useState(initialColor);
+  const [color, setColor] = useState<string>(initialColor);
   const [volume, setVolume] = useState(initialVolume);
   const [shortcut, setShortcut] = useState(initialShortcut);
+  const [isGlobal, setIsGlobal] = useState(initialIsGlobal);
+  const [midiBinding, setMidiBinding] = useState<MidiBinding | undefined>(initialMidiBinding);
+  const [midiVelocity, setMidiVelocity] = useState(initialMidiVelocity);
+  const [gamepadBinding, setGamepadBinding] = useState<GamepadBinding | undefined>(initialGamepadBinding);
+  const [playbackPolicy, setPlaybackPolicy] = useState<PlaybackPolicy>(initialPolicy);
+  const [chokeGroup, setChokeGroup] = useState(initialChokeGroup);
+  const [isBed, setIsBed] = useState(initialIsBed);
+  const [triggerMode, setTriggerMode] = useState<TriggerMode>(initialTriggerMode);
+  const [loopStart, setLoopStart] = useState(initialLoopStart);
+  const [loopEnd, setLoopEnd] = useState(initialLoopEnd);
+  const [loopError, setLoopError] = useState<string | null>(null);
+  const [fadeIn, setFadeIn] = useState(initialFadeIn);
+  const [fadeOut, setFadeOut] = useState(initialFadeOut);
+  const [fadeCurve, setFadeCurve] = useState<FadeCurve>(initialFadeCurve);
+  // Effects are edited as one group
+  const [effects, setEffects] = useState<Required<PadEffects>>(initialEffects);
   const [activeTab, setActiveTab] = useState<ModalTab>(ModalTab.UPLOAD);
   
   // File Upload State
@@ -35,27 +146,142 @@ const EditModal: React.FC<EditModalProps> = ({
   const [isGenerating, setIsGenerating] = useState(false);
   const [generatedBlob, setGeneratedBlob] = useState<Blob | null>(null);
   const [aiError, setAiError] = useState<string | null>(null);
-  const [selectedVoice, setSelectedVoice] = useState('Kore');
+  // Provider and voice carry over between pads, like a preference
+  const [speechProviderId, setSpeechProviderId] = useState(DEFAULT_SPEECH_PROVIDER_ID);
+  const [voices, setVoices] = useState<SpeechVoice[]>([]);
+  const [isLoadingVoices, setIsLoadingVoices] = useState(false);
+  const [selectedVoice, setSelectedVoice] = useState('');
+
+  // Microphone Recording State
+  const [recordedBlob, setRecordedBlob] = useState<Blob | null>(null);
 
   // Shortcut Recording
   const [isRecordingShortcut, setIsRecordingShortcut] = useState(false);
+  const [shortcutNotice, setShortcutNotice] = useState<string | null>(null);
+  // Shortcut the user already agreed to take from other pads, so saving doesn't ask twice
+  const [confirmedShortcut, setConfirmedShortcut] = useState<string | null>(null);
   const shortcutInputRef = useRef<HTMLInputElement>(null);
+  // Chord steps typed so far; the ref is read by key handlers, the state drives the display
+  const recordedStepsRef = useRef<string[]>([]);
+  const [recordedSteps, setRecordedSteps] = useState<string[]>([]);
+  const chordTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Reset state when opening modal
+  // Trim State (null end means "to the end of the clip")
+  const [trimStart, setTrimStart] = useState(initialTrimStart);
+  const [trimEnd, setTrimEnd] = useState<number | null>(initialTrimEnd);
+  const [decodedBuffer, setDecodedBuffer] = useState<AudioBuffer | null>(null);
+  const [decodeError, setDecodeError] = useState<string | null>(null);
+  const previewVoiceRef = useRef<Promise<VoiceHandle | null> | null>(null);
+
+  // The audio the modal is currently working on: a new upload/generation, or the pad's own
+  let newBlob: Blob | null = null;
+  if (activeTab === ModalTab.UPLOAD) newBlob = selectedFile;
+  else if (activeTab === ModalTab.AI_GENERATE) newBlob = generatedBlob;
+  else if (activeTab === ModalTab.RECORD) newBlob = recordedBlob;
+  const editingBlob = newBlob || pad?.audioBlob || null;
+
+  const stopPreview = () => {
+    previewVoiceRef.current?.then(voice => voice?.stop());
+    previewVoiceRef.current = null;
+  };
+
+  // Decode the working audio for the waveform; new audio starts untrimmed and without loop points
+  useEffect(() => {
+    setDecodedBuffer(null);
+    setDecodeError(null);
+    if (!isOpen || !editingBlob) return;
+
+    const isPadAudio = editingBlob === pad?.audioBlob;
+    setTrimStart(isPadAudio ? initialTrimStart : 0);
+    setTrimEnd(isPadAudio ? initialTrimEnd : null);
+    setLoopStart(isPadAudio ? initialLoopStart : '');
+    setLoopEnd(isPadAudio ? initialLoopEnd : '');
+    setLoopError(null);
+
+    let cancelled = false;
+    decodeAudioBlob(editingBlob, isPadAudio ? pad.id : undefined)
+      .then(buffer => { if (!cancelled) setDecodedBuffer(buffer); })
+      .catch(() => { if (!cancelled) setDecodeError('Could not decode this audio.'); });
+    return () => { cancelled = true; };
+  }, [isOpen, editingBlob, pad?.id, initialTrimStart, initialTrimEnd, initialLoopStart, initialLoopEnd]);
+
+  // Live preview: effect changes reach the voice that's already playing
+  useEffect(() => {
+    previewVoiceRef.current?.then(voice => voice?.updateEffects(effects));
+  }, [effects]);
+
+  // Measured levels of the working audio; the pad's stored measurement when it's unchanged
+  const loudness = useMemo(() => {
+    if (!decodedBuffer) return null;
+    if (pad?.loudness && editingBlob === pad.audioBlob) return pad.loudness;
+    return analyzeLoudness(decodedBuffer);
+  }, [decodedBuffer]);
+
+  // Don't leave a preview playing once the modal closes
+  useEffect(() => {
+    if (!isOpen) stopPreview();
+  }, [isOpen]);
+
+  // Reset state when opening modal or switching pads. Not on every new pad object: background
+  // writes (e.g. loudness analysis) replace the pad while it's open, and that mustn't wipe edits.
   useEffect(() => {
     if (isOpen) {
       setName(initialName);
       setColor(initialColor);
       setVolume(initialVolume);
       setShortcut(initialShortcut);
+      setShortcutNotice(null);
+      setConfirmedShortcut(null);
+      if (chordTimerRef.current) clearTimeout(chordTimerRef.current);
+      recordedStepsRef.current = [];
+      setRecordedSteps([]);
+      setIsGlobal(initialIsGlobal);
+      setMidiBinding(initialMidiBinding);
+      setMidiVelocity(initialMidiVelocity);
+      setGamepadBinding(initialGamepadBinding);
+      setPlaybackPolicy(initialPolicy);
+      setChokeGroup(initialChokeGroup);
+      setIsBed(initialIsBed);
+      setTriggerMode(initialTriggerMode);
+      setLoopStart(initialLoopStart);
+      setLoopEnd(initialLoopEnd);
+      setLoopError(null);
+      setFadeIn(initialFadeIn);
+      setFadeOut(initialFadeOut);
+      setFadeCurve(initialFadeCurve);
+      setEffects(initialEffects);
       setSelectedFile(null);
       setGeneratedBlob(null);
+      setRecordedBlob(null);
       setPrompt('');
       setAiError(null);
     }
-  }, [isOpen, initialName, initialColor, initialVolume, initialShortcut]);
+  }, [isOpen, pad?.id]);
+
+  // Ask the provider for its voices when the AI tab is showing; servers can change theirs at any time
+  useEffect(() => {
+    if (!isOpen || activeTab !== ModalTab.AI_GENERATE) return;
+    let cancelled = false;
+    setIsLoadingVoices(true);
+    setAiError(null);
+    getSpeechProvider(speechProviderId).listVoices()
+      .then(list => {
+        if (cancelled) return;
+        setVoices(list);
+        // Keep the chosen voice if this provider has it
+        setSelectedVoice(prev => list.some(v => v.id === prev) ? prev : (list[0]?.id ?? ''));
+      })
+      .catch((err: any) => {
+        if (cancelled) return;
+        setVoices([]);
+        setSelectedVoice('');
+        setAiError(err.message || 'Failed to load voices');
+      })
+      .finally(() => { if (!cancelled) setIsLoadingVoices(false); });
+    return () => { cancelled = true; };
+  }, [isOpen, activeTab, speechProviderId]);
 
   if (!isOpen) return null;
 
@@ -65,17 +291,24 @@ const EditModal: React.FC<EditModalProps> = ({
       setSelectedFile(file);
       // Auto-set name if empty
       if (!name) {
-        setName(file.name.replace(/\.[^/.]+$/, ""));
+        setName(getNameFromFile(file));
       }
     }
   };
 
+  const handleRecorded = (blob: Blob | null) => {
+    setRecordedBlob(blob);
+    if (blob && !name) {
+      setName(`Recording ${new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`);
+    }
+  };
+
   const handleGenerate = async () => {
-    if (!prompt) return;
+    if (!prompt || !selectedVoice) return;
     setIsGenerating(true);
     setAiError(null);
     try {
-      const blob = await generateSpeech(prompt, selectedVoice);
+      const blob = await getSpeechProvider(speechProviderId).synthesize(prompt, selectedVoice);
       setGeneratedBlob(blob);
       if (!name) {
         setName(prompt.substring(0, 15) + (prompt.length > 15 ? '...' : ''));
@@ -87,52 +320,190 @@ const EditModal: React.FC<EditModalProps> = ({
     }
   };
 
+  // Preview with the unsaved trim and fade settings
+  const handlePreview = () => {
+    if (!editingBlob) return;
+    stopPreview();
+    previewVoiceRef.current = playAudioBlob(editingBlob, volume, {
+      policy: PlaybackPolicy.LAYER,
+      startTime: trimStart,
+      endTime: trimEnd ?? undefined,
+      fadeIn,
+      fadeOut,
+      fadeCurve,
+      normalizationGain: getNormalizationGain(loudness ?? undefined),
+      ...effects,
+      liveEffects: true,
+    });
+  };
+
+  const handleResetTrim = () => {
+    setTrimStart(0);
+    setTrimEnd(null);
+  };
+
+  // Pads that would lose this shortcut when the edit is saved
+  const getShortcutConflicts = (combo: string, global: boolean) => {
+    if (!pad) return [];
+    return findShortcutConflicts(pads, { id: pad.id, bankId: pad.bankId, isGlobal: global }, combo);
+  };
+
+  const confirmReassign = (label: string, conflicts: SoundPadData[]) => {
+    const names = conflicts.map(p => `"${p.name}"`).join(', ');
+    return window.confirm(`${label} is already used by ${names}. Move it to this pad?`);
+  };
+
+  // Why the loop points can't be used, if they can't: they must form a region inside the trim
+  const validateLoopPoints = (): string | null => {
+    if (triggerMode !== TriggerMode.LOOP) return null;
+    const start = parseOptionalSeconds(loopStart);
+    const end = parseOptionalSeconds(loopEnd);
+    if (start === undefined && end === undefined) return null;
+
+    const clipEnd = decodedBuffer?.duration ?? Infinity;
+    const regionEnd = Math.min(trimEnd ?? clipEnd, clipEnd);
+    const from = start ?? trimStart;
+    const to = end ?? regionEnd;
+    if (from < trimStart || to > regionEnd) {
+      return `Loop points must be within the trimmed clip (${trimStart.toFixed(2)}s to ${regionEnd === Infinity ? 'the end' : `${regionEnd.toFixed(2)}s`}).`;
+    }
+    if (from >= to) return 'Loop start must be before loop end.';
+    return null;
+  };
+
   const handleSave = () => {
-    let blobToSave: Blob | null = null;
-    
-    if (activeTab === ModalTab.UPLOAD && selectedFile) {
-      blobToSave = selectedFile;
-    } else if (activeTab === ModalTab.AI_GENERATE && generatedBlob) {
-      blobToSave = generatedBlob;
+    const loopProblem = validateLoopPoints();
+    setLoopError(loopProblem);
+    if (loopProblem) return;
+
+    // Making a pad global can create clashes the shortcut didn't have when it was recorded
+    if (shortcut && shortcut !== confirmedShortcut) {
+      const conflicts = getShortcutConflicts(shortcut, isGlobal);
+      if (conflicts.length > 0 && !confirmReassign(formatShortcutLabel(shortcut), conflicts)) return;
+    }
+    if (midiBinding) {
+      const label = formatMidiBinding(midiBinding);
+      const mapping = findMidiMapping(midiMappings, midiBinding);
+      if (mapping) {
+        alert(`${label} is mapped to "${MIDI_MAPPING_LABELS[mapping]}" in board settings. Clear it there or learn another control.`);
+        return;
+      }
+      const conflicts = pad ? findMidiConflicts(pads, { id: pad.id, bankId: pad.bankId, isGlobal }, midiBinding) : [];
+      if (conflicts.length > 0 && !confirmReassign(label, conflicts)) return;
     }
+    if (gamepadBinding) {
+      const label = formatGamepadBinding(gamepadBinding);
+      const mapping = findGamepadMapping(gamepadMappings, gamepadBinding);
+      if (mapping) {
+        alert(`${label} is mapped to "${GAMEPAD_MAPPING_LABELS[mapping]}" in board settings. Clear it there or learn another input.`);
+        return;
+      }
+      const conflicts = pad ? findGamepadConflicts(pads, { id: pad.id, bankId: pad.bankId, isGlobal }, gamepadBinding) : [];
+      if (conflicts.length > 0 && !confirmReassign(label, conflicts)) return;
+    }
+
+    const blobToSave = newBlob;
+    stopPreview();
+
+    // Effects left at their defaults are stored as off, so the pad keeps the lightweight chain
+    const storedEffects: PadEffects = {};
+    EFFECT_SLIDERS.forEach(({ key }) => {
+      storedEffects[key] = effects[key] !== EFFECT_DEFAULTS[key] ? effects[key] : undefined;
+    });
 
-    onSave(name, color, blobToSave, volume, shortcut);
+    // A trim that covers the whole clip is stored as no trim at all
+    const isFullLength = trimEnd === null || (decodedBuffer && trimEnd >= decodedBuffer.duration);
+
+    onSave({
+      name,
+      color,
+      volume,
+      shortcut: shortcut || undefined,
+      isGlobal,
+      midiBinding,
+      midiVelocity: midiBinding && midiVelocity ? true : undefined,
+      gamepadBinding,
+      playbackPolicy,
+      chokeGroup: playbackPolicy === PlaybackPolicy.CHOKE ? chokeGroup : undefined,
+      isBed: isBed || undefined,
+      triggerMode,
+      loopStart: triggerMode === TriggerMode.LOOP ? parseOptionalSeconds(loopStart) : undefined,
+      loopEnd: triggerMode === TriggerMode.LOOP ? parseOptionalSeconds(loopEnd) : undefined,
+      startTime: trimStart > 0 ? roundSeconds(trimStart) : undefined,
+      endTime: isFullLength ? undefined : roundSeconds(trimEnd),
+      fadeIn: fadeIn > 0 ? fadeIn : undefined,
+      fadeOut: fadeOut > 0 ? fadeOut : undefined,
+      fadeCurve: fadeIn > 0 || fadeOut > 0 ? fadeCurve : undefined,
+      ...storedEffects,
+    }, blobToSave);
     onClose();
   };
 
+  const stopRecordingShortcut = () => {
+    if (chordTimerRef.current) clearTimeout(chordTimerRef.current);
+    recordedStepsRef.current = [];
+    setRecordedSteps([]);
+    setIsRecordingShortcut(false);
+    shortcutInputRef.current?.blur();
+  };
+
+  const finishShortcut = (steps: string[]) => {
+    stopRecordingShortcut();
+    const combo = steps.join(' ');
+    const label = formatShortcutLabel(combo);
+
+    const reserved = findReservedShortcut(combo);
+    if (reserved && !reserved.context) {
+      setShortcutNotice(`${label} is reserved for ${reserved.label}.`);
+      return;
+    }
+
+    const conflicts = getShortcutConflicts(combo, isGlobal);
+    if (conflicts.length > 0) {
+      if (!confirmReassign(label, conflicts)) return;
+      setConfirmedShortcut(combo);
+    }
+
+    setShortcut(combo);
+    setShortcutNotice(reserved ? `${label} is ${reserved.label} ${reserved.context}, so this pad won't fire then.` : null);
+  };
+
   const handleShortcutKeyDown = (e: React.KeyboardEvent) => {
     e.preventDefault();
     e.stopPropagation();
 
     // Ignore standalone modifier keys
-    if (['Control', 'Shift', 'Alt', 'Meta'].includes(e.key)) return;
+    const step = getEventShortcut(e);
+    if (!step) return;
 
-    // Handle Backspace/Delete to clear
-    if (e.key === 'Backspace' || e.key === 'Delete') {
+    // Backspace/Delete as the first key clears the shortcut
+    if (recordedStepsRef.current.length === 0 && (e.key === 'Backspace' || e.key === 'Delete')) {
+      stopRecordingShortcut();
       setShortcut('');
-      setIsRecordingShortcut(false);
-      shortcutInputRef.current?.blur();
+      setShortcutNotice(null);
       return;
     }
 
-    const parts = [];
-    if (e.ctrlKey) parts.push('Ctrl');
-    if (e.shiftKey) parts.push('Shift');
-    if (e.altKey) parts.push('Alt');
-    if (e.metaKey) parts.push('Meta');
-    
-    // Normalize key
-    let key = e.key;
-    if (key === ' ') key = 'Space';
-    if (key.length === 1) key = key.toUpperCase();
-    
-    parts.push(key);
-    
-    setShortcut(parts.join('+'));
-    
-    // Stop recording after capturing valid combo
-    setIsRecordingShortcut(false);
-    shortcutInputRef.current?.blur();
+    const steps = [...recordedStepsRef.current, step];
+    recordedStepsRef.current = steps;
+    setRecordedSteps(steps);
+    if (chordTimerRef.current) clearTimeout(chordTimerRef.current);
+
+    // Wait briefly for another key, which makes it a chord
+    if (steps.length >= MAX_CHORD_STEPS) {
+      finishShortcut(steps);
+    } else {
+      chordTimerRef.current = setTimeout(() => finishShortcut(steps), CHORD_TIMEOUT_MS);
+    }
+  };
+
+  // Clicking away mid-chord keeps the keys pressed so far
+  const handleShortcutBlur = () => {
+    if (recordedStepsRef.current.length > 0) {
+      finishShortcut(recordedStepsRef.current);
+    } else {
+      setIsRecordingShortcut(false);
+    }
   };
 
   return (
@@ -158,6 +529,12 @@ const EditModal: React.FC<EditModalProps> = ({
           >
             Generate (Gemini AI)
           </button>
+          <button 
+            className={`flex-1 py-3 text-sm font-medium transition-colors ${activeTab === ModalTab.RECORD ? 'bg-gray-800 text-red-400 border-b-2 border-red-400' : 'text-gray-400 hover:text-white'}`}
+            onClick={() => setActiveTab(ModalTab.RECORD)}
+          >
+            Record
+          </button>
         </div>
 
         {/* Content */}
@@ -183,11 +560,14 @@ const EditModal: React.FC<EditModalProps> = ({
                 <input 
                   ref={shortcutInputRef}
                   type="text" 
-                  value={isRecordingShortcut ? 'Press keys...' : (shortcut || '')}
+                  value={isRecordingShortcut
+                    ? (recordedSteps.length > 0 ? `${formatShortcutLabel(recordedSteps.join(' '))} then...` : 'Press keys...')
+                    : (shortcut ? formatShortcutLabel(shortcut) : '')}
                   onFocus={() => setIsRecordingShortcut(true)}
-                  onBlur={() => setIsRecordingShortcut(false)}
+                  onBlur={handleShortcutBlur}
                   onKeyDown={handleShortcutKeyDown}
                   placeholder="Click to record"
+                  title="Press a key or combo. Press another within a second to make a chord, e.g. G then 3."
                   readOnly={!isRecordingShortcut} 
                   className={`w-full bg-gray-900 border rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 cursor-pointer
                     ${isRecordingShortcut ? 'border-blue-500 ring-2 ring-blue-500/50 text-blue-300' : 'border-gray-700'}
@@ -195,7 +575,7 @@ const EditModal: React.FC<EditModalProps> = ({
                 />
                 {shortcut && !isRecordingShortcut && (
                   <button 
-                    onClick={(e) => { e.preventDefault(); setShortcut(''); }}
+                    onClick={(e) => { e.preventDefault(); setShortcut(''); setShortcutNotice(null); }}
                     className="absolute right-2 top-1/2 transform -translate-y-1/2 text-gray-500 hover:text-red-400 p-1"
                     title="Clear Shortcut"
                   >
@@ -203,11 +583,45 @@ const EditModal: React.FC<EditModalProps> = ({
                   </button>
                 )}
               </div>
+              {shortcutNotice && (
+                <p className="mt-1 text-xs text-amber-400">{shortcutNotice}</p>
+              )}
+              <div className="mt-2">
+                <GamepadLearnButton binding={gamepadBinding} onChange={setGamepadBinding} />
+              </div>
+              <label className="flex items-center space-x-2 mt-2 text-xs text-gray-400 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={isGlobal}
+                  onChange={(e) => setIsGlobal(e.target.checked)}
+                  className="accent-blue-500"
+                />
+                <span>Global (fires from any bank)</span>
+              </label>
             </div>
           </div>
 
+          {/* MIDI Binding */}
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">MIDI</label>
+            <MidiLearnButton binding={midiBinding} onChange={setMidiBinding} />
+            {midiBinding && (
+              <label className="flex items-center space-x-2 mt-2 text-xs text-gray-400 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={midiVelocity}
+                  onChange={(e) => setMidiVelocity(e.target.checked)}
+                  className="accent-blue-500"
+                />
+                <span>Velocity sensitive (softer hits play quieter)</span>
+              </label>
+            )}
+          </div>
+
           {/* Tab Specific Content */}
-          {activeTab === ModalTab.UPLOAD ? (
+          {activeTab === ModalTab.RECORD ? (
+            <RecordPanel recordedBlob={recordedBlob} onRecorded={handleRecorded} />
+          ) : activeTab === ModalTab.UPLOAD ? (
             <div className="space-y-4">
               <div 
                 className="border-2 border-dashed border-gray-700 rounded-lg p-8 text-center hover:border-blue-500 transition-colors cursor-pointer bg-gray-900/50"
@@ -239,25 +653,38 @@ const EditModal: React.FC<EditModalProps> = ({
               </div>
 
               <div className="flex space-x-4">
+                 <div className="flex-1">
+                    <label className="block text-sm font-medium text-gray-400 mb-2">Provider</label>
+                    <select
+                      value={speechProviderId}
+                      onChange={(e) => setSpeechProviderId(e.target.value)}
+                      className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    >
+                      {getSpeechProviders().map(provider => (
+                        <option key={provider.id} value={provider.id}>{provider.label}</option>
+                      ))}
+                    </select>
+                 </div>
                  <div className="flex-1">
                     <label className="block text-sm font-medium text-gray-400 mb-2">Voice</label>
                     <select 
                       value={selectedVoice}
                       onChange={(e) => setSelectedVoice(e.target.value)}
-                      className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      disabled={isLoadingVoices || voices.length === 0}
+                      className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50"
                     >
-                      <option value="Kore">Kore (Female, Soothing)</option>
-                      <option value="Puck">Puck (Male, Energetic)</option>
-                      <option value="Charon">Charon (Male, Deep)</option>
-                      <option value="Fenrir">Fenrir (Male, Intense)</option>
-                      <option value="Zephyr">Zephyr (Female, Calm)</option>
+                      {isLoadingVoices && <option value="">Loading voices...</option>}
+                      {!isLoadingVoices && voices.length === 0 && <option value="">No voices available</option>}
+                      {!isLoadingVoices && voices.map(voice => (
+                        <option key={voice.id} value={voice.id}>{voice.label}</option>
+                      ))}
                     </select>
                  </div>
                  <div className="flex items-end">
                     <button
                       onClick={handleGenerate}
-                      disabled={isGenerating || !prompt}
-                      className={`px-4 py-2 rounded-lg font-medium text-white transition-colors flex items-center ${isGenerating || !prompt ? 'bg-gray-700 cursor-not-allowed' : 'bg-purple-600 hover:bg-purple-700'}`}
+                      disabled={isGenerating || !prompt || !selectedVoice}
+                      className={`px-4 py-2 rounded-lg font-medium text-white transition-colors flex items-center ${isGenerating || !prompt || !selectedVoice ? 'bg-gray-700 cursor-not-allowed' : 'bg-purple-600 hover:bg-purple-700'}`}
                     >
                       {isGenerating ? (
                         <>
@@ -294,6 +721,136 @@ const EditModal: React.FC<EditModalProps> = ({
             </div>
           )}
 
+          {/* Trim */}
+          {editingBlob && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-gray-400">Trim</label>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={handleResetTrim}
+                    className="text-xs text-gray-400 hover:text-white px-2 py-1"
+                    title="Play the whole clip again"
+                  >
+                    Reset
+                  </button>
+                  <button
+                    onClick={handlePreview}
+                    disabled={!decodedBuffer}
+                    className="text-xs bg-gray-700 text-white px-2 py-1 rounded hover:bg-gray-600 disabled:opacity-50"
+                  >
+                    ▶ Preview
+                  </button>
+                  <button
+                    onClick={stopPreview}
+                    className="text-xs bg-gray-700 text-white px-2 py-1 rounded hover:bg-gray-600"
+                    title="Stop the preview (uses the fade-out)"
+                  >
+                    ■ Stop
+                  </button>
+                </div>
+              </div>
+              {decodedBuffer ? (
+                <WaveformEditor
+                  buffer={decodedBuffer}
+                  startTime={Math.min(trimStart, decodedBuffer.duration)}
+                  endTime={Math.min(trimEnd ?? decodedBuffer.duration, decodedBuffer.duration)}
+                  onChange={(start, end) => {
+                    setTrimStart(start);
+                    setTrimEnd(end);
+                  }}
+                />
+              ) : (
+                <p className="text-xs text-gray-500 bg-gray-900 border border-gray-700 rounded-lg p-3">
+                  {decodeError || 'Loading waveform...'}
+                </p>
+              )}
+              {loudness && (
+                <p className="mt-2 text-xs text-gray-400 font-mono">
+                  Peak {formatDb(loudness.peak)} dBFS · RMS {formatDb(loudness.rms)} dBFS · {formatDb(loudness.lufs)} LUFS
+                  {getNormalizationDb(loudness) !== 0 && (
+                    <span className="text-blue-400"> · normalized {formatDb(getNormalizationDb(loudness), true)} dB</span>
+                  )}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Fades */}
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">Fades</label>
+            <div className="grid grid-cols-2 gap-4">
+              <label className="text-xs text-gray-400">
+                In: {fadeIn.toFixed(1)}s
+                <input
+                  type="range"
+                  min="0"
+                  max={MAX_FADE_SECONDS}
+                  step="0.1"
+                  value={fadeIn}
+                  onChange={(e) => setFadeIn(parseFloat(e.target.value))}
+                  className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+              </label>
+              <label className="text-xs text-gray-400">
+                Out: {fadeOut.toFixed(1)}s
+                <input
+                  type="range"
+                  min="0"
+                  max={MAX_FADE_SECONDS}
+                  step="0.1"
+                  value={fadeOut}
+                  onChange={(e) => setFadeOut(parseFloat(e.target.value))}
+                  className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+              </label>
+            </div>
+            <div className="flex items-center space-x-2 mt-3">
+              <span className="text-sm text-gray-400">Curve</span>
+              <select
+                value={fadeCurve}
+                onChange={(e) => setFadeCurve(e.target.value as FadeCurve)}
+                className="bg-gray-900 border border-gray-700 rounded-lg px-3 py-1 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {FADE_CURVES.map(c => (
+                  <option key={c.value} value={c.value}>{c.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Effects */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-400">Effects</label>
+              <button
+                onClick={() => setEffects({ ...EFFECT_DEFAULTS })}
+                className="text-xs text-gray-400 hover:text-white px-2 py-1"
+                title="Turn every effect off"
+              >
+                Reset
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-x-4 gap-y-3">
+              {EFFECT_SLIDERS.map(slider => (
+                <label key={slider.key} className="text-xs text-gray-400">
+                  {slider.label}: {slider.format(effects[slider.key])}
+                  <input
+                    type="range"
+                    min={slider.min}
+                    max={slider.max}
+                    step={slider.step}
+                    value={effects[slider.key]}
+                    onChange={(e) => setEffects(prev => ({ ...prev, [slider.key]: parseFloat(e.target.value) }))}
+                    onDoubleClick={() => setEffects(prev => ({ ...prev, [slider.key]: EFFECT_DEFAULTS[slider.key] }))}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                  />
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">Speed and pitch both change the length, like a tape. Double-click a slider to reset it.</p>
+          </div>
+
           {/* Color Picker */}
           <div>
              <label className="block text-sm font-medium text-gray-400 mb-2">Button Color</label>
@@ -323,6 +880,102 @@ const EditModal: React.FC<EditModalProps> = ({
             />
           </div>
 
+          {/* Playback Policy */}
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">Playback</label>
+            <div className="flex space-x-2">
+              {PLAYBACK_POLICIES.map((p) => (
+                <button
+                  key={p.value}
+                  onClick={() => setPlaybackPolicy(p.value)}
+                  className={`flex-1 py-2 rounded-lg text-sm font-medium transition-colors ${playbackPolicy === p.value ? 'bg-blue-600 text-white' : 'bg-gray-900 text-gray-400 hover:text-white border border-gray-700'}`}
+                  title={p.description}
+                >
+                  {p.label}
+                </button>
+              ))}
+            </div>
+            {playbackPolicy === PlaybackPolicy.CHOKE && (
+              <div className="flex items-center space-x-2 mt-3">
+                <span className="text-sm text-gray-400">Group</span>
+                <select
+                  value={chokeGroup}
+                  onChange={(e) => setChokeGroup(parseInt(e.target.value, 10))}
+                  className="bg-gray-900 border border-gray-700 rounded-lg px-3 py-1 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {Array.from({ length: CHOKE_GROUP_COUNT }, (_, i) => i + 1).map(n => (
+                    <option key={n} value={n}>{n}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <p className="text-xs text-gray-500 mt-2">
+              {isBed && playbackPolicy === PlaybackPolicy.SOLO
+                ? 'Stops other beds; sounds on top keep playing'
+                : PLAYBACK_POLICIES.find(p => p.value === playbackPolicy)?.description}
+            </p>
+            <label className="flex items-center space-x-2 mt-3 text-sm text-gray-300 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={isBed}
+                onChange={(e) => setIsBed(e.target.checked)}
+                className="accent-blue-500"
+              />
+              <span>Background bed (dips while other sounds play)</span>
+            </label>
+          </div>
+
+          {/* Trigger Mode */}
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">Trigger</label>
+            <div className="grid grid-cols-4 gap-2">
+              {TRIGGER_MODES.map((m) => (
+                <button
+                  key={m.value}
+                  onClick={() => setTriggerMode(m.value)}
+                  className={`py-2 rounded-lg text-sm font-medium transition-colors ${triggerMode === m.value ? 'bg-blue-600 text-white' : 'bg-gray-900 text-gray-400 hover:text-white border border-gray-700'}`}
+                  title={m.description}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+            {triggerMode === TriggerMode.LOOP && (
+              <div className="grid grid-cols-2 gap-4 mt-3">
+                <label className="text-sm text-gray-400">
+                  Loop start (s)
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={loopStart}
+                    onChange={(e) => { setLoopStart(e.target.value); setLoopError(null); }}
+                    placeholder="Start of clip"
+                    className="mt-1 w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-1 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </label>
+                <label className="text-sm text-gray-400">
+                  Loop end (s)
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={loopEnd}
+                    onChange={(e) => { setLoopEnd(e.target.value); setLoopError(null); }}
+                    placeholder="End of clip"
+                    className="mt-1 w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-1 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </label>
+              </div>
+            )}
+            {loopError && (
+              <p className="mt-2 text-xs text-red-400">{loopError}</p>
+            )}
+            <p className="text-xs text-gray-500 mt-2">
+              {TRIGGER_MODES.find(m => m.value === triggerMode)?.description}
+            </p>
+          </div>
+
         </div>
 
         {/* Footer */}
@@ -0,0 +1,56 @@
+import React from 'react';
+import { FileDropResult } from '../utils/fileDrop';
+
+interface FileDropSummaryProps {
+  result: FileDropResult | null; // Only shown when something was skipped
+  onClose: () => void;
+}
+
+const FileDropSummary: React.FC<FileDropSummaryProps> = ({ result, onClose }) => {
+  if (!result) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-70 backdrop-blur-sm">
+      <div className="bg-gray-850 rounded-xl border border-gray-700 shadow-2xl w-full max-w-md overflow-hidden flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="p-6 border-b border-gray-700 bg-gray-900">
+          <h2 className="text-xl font-bold text-white">Dropped Files</h2>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto space-y-3">
+          {result.loaded > 0 && (
+            <p className="text-green-400 text-sm bg-green-900/20 border border-green-800 p-2 rounded">
+              Loaded {result.loaded} {result.loaded === 1 ? 'sound' : 'sounds'}.
+            </p>
+          )}
+          <div>
+            <p className="text-sm text-red-400 mb-2">{result.skipped.length} {result.skipped.length === 1 ? 'file was' : 'files were'} skipped:</p>
+            <ul className="text-xs text-gray-300 space-y-1 bg-gray-900 border border-gray-700 rounded-lg p-3">
+              {result.skipped.map((f, i) => (
+                <li key={i}>
+                  <span className="font-medium text-white">{f.name}</span>
+                  <span className="text-gray-500"> — {f.reason}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 border-t border-gray-700 bg-gray-900 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-400 hover:text-white font-medium transition-colors"
+          >
+            Close
+          </button>
+        </div>
+
+      </div>
+    </div>
+  );
+};
+
+export default FileDropSummary;
@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from 'react';
+import { GamepadBinding } from '../types';
+import { captureNextGamepadBinding, formatGamepadBinding } from '../utils/gamepad';
+
+interface GamepadLearnButtonProps {
+  binding?: GamepadBinding;
+  onChange: (binding: GamepadBinding | undefined) => void;
+}
+
+// Click, then press a button, pedal or stick direction on any connected gamepad
+const GamepadLearnButton: React.FC<GamepadLearnButtonProps> = ({ binding, onChange }) => {
+  const [isLearning, setIsLearning] = useState(false);
+
+  useEffect(() => {
+    if (!isLearning) return;
+    let cancelled = false;
+    const capture = captureNextGamepadBinding();
+    capture.binding.then(learned => {
+      if (cancelled) return;
+      // Null when another control started learning
+      setIsLearning(false);
+      if (learned) onChange(learned);
+    });
+    return () => {
+      cancelled = true;
+      capture.cancel();
+    };
+  }, [isLearning]);
+
+  if (!navigator.getGamepads) {
+    return <p className="text-xs text-gray-500 py-2">This browser does not support gamepads.</p>;
+  }
+
+  return (
+    <div className="flex items-center space-x-2">
+      <button
+        type="button"
+        onClick={() => setIsLearning(!isLearning)}
+        className={`flex-1 px-3 py-2 rounded-lg border text-sm text-left transition-colors ${isLearning ? 'bg-blue-900/40 border-blue-500 text-blue-300 animate-pulse' : 'bg-gray-900 border-gray-700 text-white hover:border-gray-500'}`}
+      >
+        {isLearning ? 'Press a button or pedal...' : binding ? `🎮 ${formatGamepadBinding(binding)}` : 'Gamepad Learn'}
+      </button>
+      {binding && !isLearning && (
+        <button
+          type="button"
+          onClick={() => onChange(undefined)}
+          className="px-2 py-2 text-gray-500 hover:text-red-400 transition-colors"
+          title="Clear gamepad binding"
+        >
+          ✕
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default GamepadLearnButton;
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { BoardArchive, FailedPad, ImportMode } from '../utils/boardArchive';
+
+export interface ImportResult {
+  imported: number;
+  failed: FailedPad[];
+  unbound: FailedPad[];
+}
+
+interface ImportBoardDialogProps {
+  archive: BoardArchive | null;
+  error: string | null; // The file couldn't be read as a board export
+  onImport: (mode: ImportMode) => Promise<ImportResult>;
+  onClose: () => void;
+}
+
+const ImportBoardDialog: React.FC<ImportBoardDialogProps> = ({ archive, error, onImport, onClose }) => {
+  const [mode, setMode] = useState<ImportMode>(ImportMode.MERGE);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  // Fresh state for each file
+  useEffect(() => {
+    setMode(ImportMode.MERGE);
+    setIsImporting(false);
+    setImportError(null);
+    setResult(null);
+  }, [archive, error]);
+
+  if (!archive && !error) return null;
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      setResult(await onImport(mode));
+    } catch (err: any) {
+      setImportError(err.message || 'Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-70 backdrop-blur-sm">
+      <div className="bg-gray-850 rounded-xl border border-gray-700 shadow-2xl w-full max-w-md overflow-hidden flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="p-6 border-b border-gray-700 bg-gray-900">
+          <h2 className="text-xl font-bold text-white">Import Board</h2>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto space-y-4">
+          {error && (
+            <p className="text-red-400 text-sm bg-red-900/20 p-2 rounded">{error}</p>
+          )}
+
+          {archive && !result && (
+            <>
+              <p className="text-sm text-gray-300">
+                {archive.pads.length} sounds on {archive.banks.length} {archive.banks.length === 1 ? 'bank' : 'banks'}, exported {new Date(archive.exportedAt).toLocaleString()}.
+              </p>
+
+              <div className="space-y-2">
+                <label className="flex items-start space-x-3 p-3 rounded-lg border border-gray-700 bg-gray-900 cursor-pointer">
+                  <input
+                    type="radio"
+                    checked={mode === ImportMode.MERGE}
+                    onChange={() => setMode(ImportMode.MERGE)}
+                    className="mt-1 accent-blue-500"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-white">Merge into empty slots</span>
+                    <span className="block text-xs text-gray-400">Keeps your current sounds. Banks are matched by name.</span>
+                  </span>
+                </label>
+                <label className="flex items-start space-x-3 p-3 rounded-lg border border-gray-700 bg-gray-900 cursor-pointer">
+                  <input
+                    type="radio"
+                    checked={mode === ImportMode.REPLACE}
+                    onChange={() => setMode(ImportMode.REPLACE)}
+                    className="mt-1 accent-red-500"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-white">Replace this board</span>
+                    <span className="block text-xs text-gray-400">
+                      {archive?.cueLists
+                        ? 'Deletes every current sound, bank, cue list and board setting first.'
+                        : 'Deletes every current sound, bank and board setting first. Cue lists keep only cues for imported sounds.'}
+                    </span>
+                  </span>
+                </label>
+              </div>
+
+              {importError && (
+                <p className="text-red-400 text-sm bg-red-900/20 p-2 rounded">{importError}</p>
+              )}
+            </>
+          )}
+
+          {result && (
+            <div className="space-y-3">
+              <p className="text-green-400 text-sm bg-green-900/20 border border-green-800 p-2 rounded">
+                Imported {result.imported} {result.imported === 1 ? 'sound' : 'sounds'}.
+              </p>
+              {result.failed.length > 0 && (
+                <div>
+                  <p className="text-sm text-red-400 mb-2">{result.failed.length} could not be imported:</p>
+                  <ul className="text-xs text-gray-300 space-y-1 bg-gray-900 border border-gray-700 rounded-lg p-3">
+                    {result.failed.map((f, i) => (
+                      <li key={i}>
+                        <span className="font-medium text-white">{f.name}</span>
+                        <span className="text-gray-500"> — {f.reason}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {result.unbound.length > 0 && (
+                <div>
+                  <p className="text-sm text-yellow-400 mb-2">{result.unbound.length} {result.unbound.length === 1 ? 'binding was' : 'bindings were'} left off to avoid clashes:</p>
+                  <ul className="text-xs text-gray-300 space-y-1 bg-gray-900 border border-gray-700 rounded-lg p-3">
+                    {result.unbound.map((f, i) => (
+                      <li key={i}>
+                        <span className="font-medium text-white">{f.name}</span>
+                        <span className="text-gray-500"> — {f.reason}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 border-t border-gray-700 bg-gray-900 flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-400 hover:text-white font-medium transition-colors"
+          >
+            {result || error ? 'Close' : 'Cancel'}
+          </button>
+          {archive && !result && (
+            <button
+              onClick={handleImport}
+              disabled={isImporting}
+              className={`px-6 py-2 text-white rounded-lg font-bold shadow-lg transition-colors disabled:opacity-50 ${mode === ImportMode.REPLACE ? 'bg-red-600 hover:bg-red-700 shadow-red-900/50' : 'bg-blue-600 hover:bg-blue-700 shadow-blue-900/50'}`}
+            >
+              {isImporting ? 'Importing...' : 'Import'}
+            </button>
+          )}
+        </div>
+
+      </div>
+    </div>
+  );
+};
+
+export default ImportBoardDialog;
@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { getMasterLevels } from '../utils/audio';
+
+// Bottom of the meter scale
+const FLOOR_DB = -60;
+// Peak marker falls back this fast after a hit
+const PEAK_FALL_DB_PER_SECOND = 20;
+
+const toDb = (amplitude: number) => amplitude > 0 ? Math.max(20 * Math.log10(amplitude), FLOOR_DB) : FLOOR_DB;
+const toPercent = (db: number) => ((db - FLOOR_DB) / -FLOOR_DB) * 100;
+
+interface MasterMeterProps {
+  isActive: boolean; // Any voice playing; the meter only reads the analyser while there's sound
+}
+
+// Output meter for the master bus: RMS bar, falling peak marker and a latching clip light
+const MasterMeter: React.FC<MasterMeterProps> = ({ isActive }) => {
+  const [rmsDb, setRmsDb] = useState(FLOOR_DB);
+  const [peakDb, setPeakDb] = useState(FLOOR_DB);
+  const [hasClipped, setHasClipped] = useState(false);
+
+  useEffect(() => {
+    // Nothing playing and the meter has settled: no frames to schedule
+    if (!isActive && rmsDb <= FLOOR_DB && peakDb <= FLOOR_DB) return;
+
+    let frame: number;
+    let heldPeak = peakDb;
+    let lastTime = performance.now();
+
+    const tick = (time: number) => {
+      const { peak, rms } = getMasterLevels();
+      const elapsed = (time - lastTime) / 1000;
+      lastTime = time;
+
+      heldPeak = Math.max(toDb(peak), heldPeak - PEAK_FALL_DB_PER_SECOND * elapsed, FLOOR_DB);
+      // Rounded so a silent or steady bus doesn't re-render every frame
+      setRmsDb(Math.round(toDb(rms)));
+      setPeakDb(Math.round(heldPeak));
+      if (peak >= 1) setHasClipped(true);
+
+      // After the last voice ends, run on until fade tails and the peak marker reach the floor
+      if (!isActive && toDb(rms) <= FLOOR_DB && heldPeak <= FLOOR_DB) return;
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+    // Restarted only when playback starts or stops, picking up from the levels shown
+  }, [isActive]);
+
+  const barColor = peakDb > -3 ? 'bg-red-500' : peakDb > -12 ? 'bg-amber-400' : 'bg-green-500';
+
+  return (
+    <div className="flex items-center space-x-1.5" title={`Output: ${rmsDb} dB RMS, ${peakDb} dB peak`}>
+      <div className="relative w-16 lg:w-24 h-2 bg-gray-700 rounded-full overflow-hidden">
+        <div className={`h-full ${barColor}`} style={{ width: `${toPercent(rmsDb)}%` }} />
+        <div className="absolute top-0 h-full w-0.5 bg-white/80" style={{ left: `${toPercent(peakDb)}%` }} />
+      </div>
+      <button
+        onClick={() => setHasClipped(false)}
+        className={`w-2.5 h-2.5 rounded-full ${hasClipped ? 'bg-red-500 shadow shadow-red-500' : 'bg-gray-600'}`}
+        title={hasClipped ? 'The output clipped. Click to reset.' : 'Clip indicator'}
+      />
+    </div>
+  );
+};
+
+export default MasterMeter;
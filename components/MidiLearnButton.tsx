@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import { MidiBinding } from '../types';
+import { captureNextMidiBinding, formatMidiBinding, initMidi } from '../utils/midi';
+
+interface MidiLearnButtonProps {
+  binding?: MidiBinding;
+  onChange: (binding: MidiBinding | undefined) => void;
+}
+
+// "MIDI learn": click, then press a key or move a control on the controller
+const MidiLearnButton: React.FC<MidiLearnButtonProps> = ({ binding, onChange }) => {
+  const [isLearning, setIsLearning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Stop listening if the button goes away mid-learn
+  useEffect(() => {
+    if (!isLearning) return;
+    let cancelled = false;
+    const capture = captureNextMidiBinding();
+    capture.binding.then(learned => {
+      if (cancelled) return;
+      // Null when another control started learning
+      setIsLearning(false);
+      if (learned) onChange(learned);
+    });
+    return () => {
+      cancelled = true;
+      capture.cancel();
+    };
+  }, [isLearning]);
+
+  const handleLearn = async () => {
+    if (isLearning) {
+      setIsLearning(false);
+      return;
+    }
+    setError(null);
+    const status = await initMidi();
+    if (status === 'unsupported') {
+      setError('This browser does not support Web MIDI.');
+    } else if (status === 'denied') {
+      setError('MIDI access was denied.');
+    } else {
+      setIsLearning(true);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center space-x-2">
+        <button
+          type="button"
+          onClick={handleLearn}
+          className={`flex-1 px-3 py-2 rounded-lg border text-sm text-left transition-colors ${isLearning ? 'bg-blue-900/40 border-blue-500 text-blue-300 animate-pulse' : 'bg-gray-900 border-gray-700 text-white hover:border-gray-500'}`}
+        >
+          {isLearning ? 'Press a key or move a control...' : binding ? formatMidiBinding(binding) : 'MIDI Learn'}
+        </button>
+        {binding && !isLearning && (
+          <button
+            type="button"
+            onClick={() => onChange(undefined)}
+            className="px-2 py-2 text-gray-500 hover:text-red-400 transition-colors"
+            title="Clear MIDI binding"
+          >
+            ✕
+          </button>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+    </div>
+  );
+};
+
+export default MidiLearnButton;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { SoundPadData } from '../types';
+import { ActiveVoice, getVoiceProgress } from '../utils/audio';
+import { useAudioClock, formatRemaining } from './useAudioClock';
+
+interface NowPlayingProps {
+  voices: ActiveVoice[];
+  pads: SoundPadData[]; // Every bank, so voices from other banks still get a name
+}
+
+// Header strip listing every running voice with its progress and time left
+const NowPlaying: React.FC<NowPlayingProps> = ({ voices, pads }) => {
+  const now = useAudioClock(voices.length > 0);
+
+  if (voices.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-2 overflow-x-auto pb-1">
+      <span className="text-[10px] text-gray-500 uppercase font-bold shrink-0">Now playing</span>
+      {voices.map(voice => {
+        const pad = pads.find(p => p.id === voice.padId);
+        const { fraction, remaining } = getVoiceProgress(voice, now);
+        return (
+          <div
+            key={voice.id}
+            className={`relative shrink-0 overflow-hidden rounded-md border border-gray-700 bg-gray-800 px-2 py-1 text-xs ${voice.isStopping ? 'opacity-50' : ''}`}
+          >
+            <span className="text-white font-medium">{pad?.name || 'Preview'}</span>
+            <span className="ml-2 font-mono text-gray-400">
+              {voice.isStopping ? 'fading' : remaining === null ? '🔁' : formatRemaining(remaining)}
+            </span>
+            <div className="absolute bottom-0 left-0 h-0.5 bg-blue-500" style={{ width: `${fraction * 100}%` }} />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default NowPlaying;
@@ -1,6 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { SoundPadData, PadColor } from '../types';
-import { playAudioBlob } from '../utils/audio';
+import { SoundPadData, PlaybackPolicy, TriggerMode } from '../types';
+import { formatGamepadBinding } from '../utils/gamepad';
+import { ActiveVoice, getVoiceProgress } from '../utils/audio';
+import { useAudioClock, formatRemaining } from './useAudioClock';
+import { formatShortcutLabel } from '../utils/shortcuts';
+import { isFileDrag } from '../utils/fileDrop';
 
 interface PadProps {
   data: SoundPadData;
@@ -8,12 +12,32 @@ interface PadProps {
   onEdit: () => void;
   onDelete: () => void;
   onPlay: () => void; // Parent handles play coordination
+  onRelease: () => void; // Pointer released; ends hold-to-play pads
   isTriggered: boolean; // For external trigger visual feedback
+  voice?: ActiveVoice; // The most recent voice this pad started, while it's running
+  onDropPad: (sourceId: string, duplicate: boolean) => void; // Another pad dropped here in edit mode
+  onContextMenu: (x: number, y: number) => void; // Right-click in edit mode
+  onDropFiles: (dataTransfer: DataTransfer) => void; // Audio files dropped here, in either mode
 }
 
-const Pad: React.FC<PadProps> = ({ data, isEditMode, onEdit, onDelete, onPlay, isTriggered }) => {
+// Drag data type for pads, so drops of other things (text, links) are ignored
+const PAD_DRAG_TYPE = 'application/x-sound-pad';
+
+const TRIGGER_MODE_LABELS: Record<TriggerMode, string> = {
+  [TriggerMode.ONE_SHOT]: '',
+  [TriggerMode.TOGGLE]: 'Toggle',
+  [TriggerMode.GATE]: 'Hold',
+  [TriggerMode.LOOP]: 'Loop',
+};
+
+const Pad: React.FC<PadProps> = ({ data, isEditMode, onEdit, onDelete, onPlay, onRelease, isTriggered, voice, onDropPad, onContextMenu, onDropFiles }) => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [isHovered, setIsHovered] = useState(false);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const isActive = !!voice;
+  const isLooping = !!voice?.isLooping;
+  const now = useAudioClock(isActive && !isEditMode);
+  const progress = voice ? getVoiceProgress(voice, now) : null;
 
   // Handle external trigger (e.g. keyboard shortcut)
   useEffect(() => {
@@ -24,48 +48,168 @@ const Pad: React.FC<PadProps> = ({ data, isEditMode, onEdit, onDelete, onPlay, i
     }
   }, [isTriggered]);
 
-  const handlePlayClick = async () => {
+  // Play on pointer down (not click) so hold-to-play pads can react to the release
+  const handlePointerDown = (e: React.PointerEvent<HTMLButtonElement>) => {
     if (isEditMode) return;
     if (!data.audioBlob) return;
+    if (e.button !== 0) return;
+
+    // Keep receiving pointer events even if the finger slides off the pad
+    e.currentTarget.setPointerCapture(e.pointerId);
 
     setIsPlaying(true);
     setTimeout(() => setIsPlaying(false), 200);
 
-    onPlay(); // Notify parent to coordinate play
-    await playAudioBlob(data.audioBlob, data.volume);
+    onPlay(); // Parent starts the voice according to the trigger mode
+  };
+
+  const handlePointerUp = () => {
+    if (isEditMode) return;
+    if (!data.audioBlob) return;
+    onRelease();
+  };
+
+  // Enter or Space on a focused pad plays it like a press, and letting go releases it
+  const isActivationKey = (e: React.KeyboardEvent) => e.key === 'Enter' || e.key === ' ';
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+    if (isEditMode || !data.audioBlob || !isActivationKey(e)) return;
+    // Keep the key from scrolling the page or reaching the board's own shortcuts
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.repeat) return;
+
+    setIsPlaying(true);
+    setTimeout(() => setIsPlaying(false), 200);
+    onPlay();
+  };
+
+  const handleKeyUp = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+    if (isEditMode || !data.audioBlob || !isActivationKey(e)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    onRelease();
   };
 
   const handleClick = () => {
     if (isEditMode) {
       onEdit();
-    } else {
-      handlePlayClick();
     }
   };
 
+  const handleDragStart = (e: React.DragEvent) => {
+    e.dataTransfer.setData(PAD_DRAG_TYPE, data.id);
+    e.dataTransfer.effectAllowed = 'copyMove';
+  };
+
+  // Alt (Option on a Mac) while dropping a pad duplicates instead of moving
+  const handleDragOver = (e: React.DragEvent) => {
+    const isPad = isEditMode && e.dataTransfer.types.includes(PAD_DRAG_TYPE);
+    if (!isPad && !isFileDrag(e.dataTransfer)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = isPad && !e.altKey ? 'move' : 'copy';
+    setIsDragOver(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    setIsDragOver(false);
+    if (isFileDrag(e.dataTransfer)) {
+      e.preventDefault();
+      e.stopPropagation();
+      onDropFiles(e.dataTransfer);
+      return;
+    }
+    const sourceId = e.dataTransfer.getData(PAD_DRAG_TYPE);
+    if (!isEditMode || !sourceId) return;
+    e.preventDefault();
+    e.stopPropagation();
+    onDropPad(sourceId, e.altKey);
+  };
+
+  const handleContextMenu = (e: React.MouseEvent) => {
+    if (!isEditMode) return;
+    e.preventDefault();
+    onContextMenu(e.clientX, e.clientY);
+  };
+
+  const triggerLabel = TRIGGER_MODE_LABELS[data.triggerMode || TriggerMode.ONE_SHOT];
+
   return (
     <div 
       className="relative aspect-square"
       onMouseEnter={() => setIsHovered(true)}
       onMouseLeave={() => setIsHovered(false)}
+      draggable={isEditMode && !!data.audioBlob}
+      onDragStart={handleDragStart}
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => {
+        // Moving over the pad's own badges and labels isn't leaving it
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragOver(false);
+      }}
+      onDrop={handleDrop}
+      onContextMenu={handleContextMenu}
     >
       <button
         onClick={handleClick}
+        onPointerDown={handlePointerDown}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onKeyDown={handleKeyDown}
+        onKeyUp={handleKeyUp}
         className={`
           w-full h-full rounded-xl transition-all duration-100 flex flex-col items-center justify-center p-4 shadow-lg border-b-4 relative
           ${data.audioBlob ? data.color : 'bg-gray-800 border-gray-700'}
           ${data.audioBlob ? 'text-white' : 'text-gray-500'}
           ${data.audioBlob ? 'hover:brightness-110 active:border-b-0 active:translate-y-1' : 'hover:bg-gray-750'}
           ${isPlaying ? 'brightness-125 scale-95 border-b-0 translate-y-1' : ''}
-          ${isEditMode && isHovered ? 'ring-2 ring-white ring-offset-2 ring-offset-gray-900' : ''}
+          ${isActive && !isEditMode ? 'ring-4 ring-white/70' : ''}
+          ${isLooping && !isEditMode ? 'animate-pulse' : ''}
+          ${(isEditMode && isHovered) || isDragOver ? 'ring-2 ring-white ring-offset-2 ring-offset-gray-900' : ''}
           ${data.audioBlob ? 'border-opacity-80 border-black/30' : ''}
         `}
       >
         {/* Shortcut Badge */}
-        {data.shortcut && !isEditMode && (
-          <div className="absolute top-2 left-2 z-10">
-            <span className="inline-block px-1.5 py-0.5 rounded bg-black/40 text-[10px] font-mono font-bold text-white/90 backdrop-blur-sm border border-white/10 uppercase">
-              {data.shortcut}
+        {(data.shortcut || data.gamepadBinding) && !isEditMode && (
+          <div className="absolute top-2 left-2 z-10 flex space-x-1">
+            {data.shortcut && (
+              <span className="inline-block px-1.5 py-0.5 rounded bg-black/40 text-[10px] font-mono font-bold text-white/90 backdrop-blur-sm border border-white/10 uppercase">
+                {data.isGlobal && <span title="Global shortcut">🌐 </span>}
+                {formatShortcutLabel(data.shortcut)}
+              </span>
+            )}
+            {data.gamepadBinding && (
+              <span className="inline-block px-1.5 py-0.5 rounded bg-black/40 text-[10px] font-mono font-bold text-white/90 backdrop-blur-sm border border-white/10 uppercase" title="Gamepad binding">
+                🎮 {formatGamepadBinding(data.gamepadBinding)}
+              </span>
+            )}
+          </div>
+        )}
+
+        {/* Trigger Mode Badge (one-shot is the default and needs no badge) */}
+        {data.audioBlob && (triggerLabel || data.isBed) && (
+          <div className="absolute bottom-2 left-2 z-10 flex space-x-1">
+            {triggerLabel && (
+              <span className="inline-block px-1.5 py-0.5 rounded bg-black/40 text-[10px] font-mono font-bold text-white/90 backdrop-blur-sm border border-white/10 uppercase">
+                {triggerLabel}
+              </span>
+            )}
+            {data.isBed && (
+              <span className="inline-block px-1.5 py-0.5 rounded bg-black/40 text-[10px] font-mono font-bold text-white/90 backdrop-blur-sm border border-white/10 uppercase" title="Background bed; ducks under other sounds">
+                Bed
+              </span>
+            )}
+          </div>
+        )}
+
+        {/* Playback Policy Badge (solo is the default and needs no badge) */}
+        {data.audioBlob && data.playbackPolicy && data.playbackPolicy !== PlaybackPolicy.SOLO && (
+          <div className="absolute bottom-2 right-2 z-10">
+            <span
+              className="inline-block px-1.5 py-0.5 rounded bg-black/40 text-[10px] font-mono font-bold text-white/90 backdrop-blur-sm border border-white/10 uppercase"
+              title={data.playbackPolicy === PlaybackPolicy.LAYER ? 'Layers over other sounds' : `Choke group ${data.chokeGroup}`}
+            >
+              {data.playbackPolicy === PlaybackPolicy.LAYER ? 'Layer' : `Choke ${data.chokeGroup}`}
             </span>
           </div>
         )}
@@ -73,11 +217,16 @@ const Pad: React.FC<PadProps> = ({ data, isEditMode, onEdit, onDelete, onPlay, i
         {data.audioBlob ? (
           <>
             <div className="text-3xl mb-2 drop-shadow-md transition-transform duration-200" style={{ transform: isPlaying ? 'scale(1.2)' : 'scale(1)' }}>
-               {isPlaying ? '🔊' : '🎵'}
+               {isLooping ? '🔁' : (isPlaying || isActive) ? '🔊' : '🎵'}
             </div>
             <span className="text-sm font-bold truncate w-full text-center drop-shadow-md select-none">
               {data.name}
             </span>
+            {progress && !isEditMode && (
+              <span className="text-[10px] font-bold font-mono uppercase tracking-wider text-white/90 select-none">
+                {voice?.isStopping ? 'Fading' : progress.remaining === null ? 'Looping' : formatRemaining(progress.remaining)}
+              </span>
+            )}
           </>
         ) : (
           <div className="flex flex-col items-center">
@@ -85,6 +234,12 @@ const Pad: React.FC<PadProps> = ({ data, isEditMode, onEdit, onDelete, onPlay, i
              <span className="text-xs font-medium opacity-50 uppercase tracking-wider">Empty</span>
           </div>
         )}
+        {/* Playback Progress */}
+        {progress && !isEditMode && (
+          <div className="absolute bottom-0 inset-x-0 h-1.5 bg-black/30 rounded-b-xl overflow-hidden">
+            <div className="h-full bg-white/80" style={{ width: `${progress.fraction * 100}%` }} />
+          </div>
+        )}
       </button>
 
       {/* Edit Overlay Controls */}
@@ -0,0 +1,59 @@
+import React, { useEffect } from 'react';
+import { SoundPadData } from '../types';
+
+interface PadContextMenuProps {
+  pad: SoundPadData;
+  x: number;
+  y: number;
+  copiedPad: SoundPadData | null;
+  onCopy: () => void;
+  onPaste: () => void;
+  onDuplicate: () => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+// Right-click menu for a pad in edit mode
+const PadContextMenu: React.FC<PadContextMenuProps> = ({ pad, x, y, copiedPad, onCopy, onPaste, onDuplicate, onClear, onClose }) => {
+  // Any click or scroll elsewhere dismisses the menu
+  useEffect(() => {
+    window.addEventListener('pointerdown', onClose);
+    window.addEventListener('scroll', onClose, true);
+    return () => {
+      window.removeEventListener('pointerdown', onClose);
+      window.removeEventListener('scroll', onClose, true);
+    };
+  }, [onClose]);
+
+  const hasAudio = !!pad.audioBlob;
+  const items = [
+    { label: 'Copy', onClick: onCopy, disabled: !hasAudio },
+    { label: copiedPad ? `Paste "${copiedPad.name}"` : 'Paste', onClick: onPaste, disabled: !copiedPad },
+    { label: 'Duplicate', onClick: onDuplicate, disabled: !hasAudio },
+    { label: 'Clear', onClick: onClear, disabled: !hasAudio },
+  ];
+
+  // Kept inside the window near the right and bottom edges
+  const position = { left: Math.min(x, window.innerWidth - 176), top: Math.min(y, window.innerHeight - 160) };
+
+  return (
+    <div
+      className="fixed z-50 min-w-[10rem] py-1 rounded-lg border border-gray-700 bg-gray-900 shadow-2xl"
+      style={position}
+      onPointerDown={(e) => e.stopPropagation()}
+    >
+      {items.map(item => (
+        <button
+          key={item.label}
+          onClick={() => { item.onClick(); onClose(); }}
+          disabled={item.disabled}
+          className="block w-full text-left px-3 py-1.5 text-sm text-gray-200 hover:bg-gray-800 disabled:text-gray-600 disabled:hover:bg-transparent truncate"
+        >
+          {item.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default PadContextMenu;
@@ -0,0 +1,120 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import RecordPanel from './RecordPanel';
+import { MicRecorder } from '../utils/recorder';
+
+const TAKE = new Blob(['take'], { type: 'audio/webm' });
+
+// Stands in for the microphone; overrides make individual steps fail
+const fakeRecorder = (overrides: Partial<MicRecorder> = {}) => {
+  let recording = false;
+  const recorder = {
+    open: vi.fn(async () => {}),
+    start: vi.fn(() => { recording = true; }),
+    stop: vi.fn(async () => {
+      recording = false;
+      return TAKE;
+    }),
+    close: vi.fn(() => { recording = false; }),
+    getLevel: () => 0.5,
+    isRecording: () => recording,
+    ...overrides,
+  };
+  return recorder;
+};
+
+const renderPanel = (recorder: MicRecorder) => {
+  const onRecorded = vi.fn();
+  const view = render(<RecordPanel recordedBlob={null} onRecorded={onRecorded} createRecorder={() => recorder} />);
+  return { onRecorded, ...view };
+};
+
+const click = (name: RegExp) => act(async () => {
+  fireEvent.click(screen.getByRole('button', { name }));
+});
+
+const wait = (ms: number) => act(async () => {
+  vi.advanceTimersByTime(ms);
+});
+
+describe('RecordPanel', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+  });
+
+  it('records after the countdown and hands over the take on stop', async () => {
+    const recorder = fakeRecorder();
+    const { onRecorded } = renderPanel(recorder);
+
+    await click(/record/i);
+    expect(recorder.open).toHaveBeenCalled();
+    expect(screen.getByText('3')).toBeTruthy();
+
+    await wait(3000);
+    expect(recorder.start).toHaveBeenCalled();
+    expect(screen.getByText(/REC/)).toBeTruthy();
+
+    await click(/stop/i);
+    expect(onRecorded).toHaveBeenLastCalledWith(TAKE);
+    expect(recorder.close).toHaveBeenCalled();
+    expect(screen.getByRole('button', { name: /record/i })).toBeTruthy();
+  });
+
+  it('cancels during the countdown without recording', async () => {
+    const recorder = fakeRecorder();
+    const { onRecorded } = renderPanel(recorder);
+
+    await click(/record/i);
+    await wait(1000);
+    await click(/cancel/i);
+    await wait(3000);
+
+    expect(recorder.start).not.toHaveBeenCalled();
+    expect(recorder.close).toHaveBeenCalled();
+    // Only the reset when the take began; no recording was handed over
+    expect(onRecorded.mock.calls).toEqual([[null]]);
+  });
+
+  it('explains a refused microphone', async () => {
+    const denied = Object.assign(new Error('Permission denied'), { name: 'NotAllowedError' });
+    const recorder = fakeRecorder({ open: vi.fn(() => Promise.reject(denied)) });
+    renderPanel(recorder);
+
+    await click(/record/i);
+
+    expect(screen.getByText('Microphone access was denied.')).toBeTruthy();
+    expect(screen.getByRole('button', { name: /record/i })).toBeTruthy();
+  });
+
+  it('goes back to idle and releases the microphone when recording fails to start', async () => {
+    const recorder = fakeRecorder({ start: vi.fn(() => { throw new Error('Recorder is busy'); }) });
+    renderPanel(recorder);
+
+    await click(/record/i);
+    await wait(3000);
+
+    expect(screen.getByText('Recorder is busy')).toBeTruthy();
+    expect(recorder.close).toHaveBeenCalled();
+    expect(screen.getByRole('button', { name: /record/i })).toBeTruthy();
+  });
+
+  it('keeps a take that is still running when the panel goes away', async () => {
+    const recorder = fakeRecorder();
+    const { onRecorded, unmount } = renderPanel(recorder);
+
+    await click(/record/i);
+    await wait(3000);
+    await act(async () => unmount());
+
+    expect(recorder.stop).toHaveBeenCalled();
+    expect(onRecorded).toHaveBeenLastCalledWith(TAKE);
+    expect(recorder.close).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,197 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createMicRecorder, MicRecorder } from '../utils/recorder';
+
+interface RecordPanelProps {
+  recordedBlob: Blob | null;
+  onRecorded: (blob: Blob | null) => void; // null when the take is discarded
+  createRecorder?: () => MicRecorder;
+}
+
+type RecordState = 'idle' | 'countdown' | 'recording';
+
+const COUNTDOWN_SECONDS = 3;
+
+const formatElapsed = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+const RecordPanel: React.FC<RecordPanelProps> = ({ recordedBlob, onRecorded, createRecorder = createMicRecorder }) => {
+  const [state, setState] = useState<RecordState>('idle');
+  const [countdown, setCountdown] = useState(COUNTDOWN_SECONDS);
+  const [elapsed, setElapsed] = useState(0);
+  const [level, setLevel] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  const recorderRef = useRef<MicRecorder | null>(null);
+  const timerRef = useRef<number | null>(null);
+  const meterFrameRef = useRef<number | null>(null);
+  // Latest callback, for a take that finishes after the panel has gone
+  const onRecordedRef = useRef(onRecorded);
+  onRecordedRef.current = onRecorded;
+
+  const clearTimers = () => {
+    if (timerRef.current) window.clearInterval(timerRef.current);
+    if (meterFrameRef.current) cancelAnimationFrame(meterFrameRef.current);
+    timerRef.current = null;
+    meterFrameRef.current = null;
+  };
+
+  // Release the microphone when the panel goes away (e.g. a tab switch). A take in
+  // progress is finished and kept rather than thrown away.
+  useEffect(() => () => {
+    clearTimers();
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    if (!recorder.isRecording()) {
+      recorder.close();
+      return;
+    }
+    recorder.stop()
+      .then(blob => onRecordedRef.current(blob))
+      .catch(err => console.error("Failed to finish recording", err))
+      .finally(() => recorder.close());
+  }, []);
+
+  // Playback URL for the finished take
+  useEffect(() => {
+    if (!recordedBlob) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(recordedBlob);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [recordedBlob]);
+
+  const runMeter = () => {
+    setLevel(recorderRef.current?.getLevel() ?? 0);
+    meterFrameRef.current = requestAnimationFrame(runMeter);
+  };
+
+  const handleRecord = async () => {
+    setError(null);
+    onRecorded(null);
+
+    const recorder = createRecorder();
+    recorderRef.current = recorder;
+    try {
+      await recorder.open();
+    } catch (err: any) {
+      recorderRef.current = null;
+      setError(err.name === 'NotAllowedError' ? 'Microphone access was denied.' : (err.message || 'Could not open the microphone.'));
+      return;
+    }
+
+    // Meter runs through the countdown so levels can be checked before the take
+    runMeter();
+    setState('countdown');
+    setCountdown(COUNTDOWN_SECONDS);
+
+    let remaining = COUNTDOWN_SECONDS;
+    timerRef.current = window.setInterval(() => {
+      remaining--;
+      setCountdown(remaining);
+      if (remaining > 0) return;
+
+      window.clearInterval(timerRef.current!);
+      try {
+        recorder.start();
+      } catch (err: any) {
+        clearTimers();
+        recorder.close();
+        recorderRef.current = null;
+        setLevel(0);
+        setState('idle');
+        setError(err.message || 'Could not start recording.');
+        return;
+      }
+      setState('recording');
+      setElapsed(0);
+
+      const startedAt = performance.now();
+      timerRef.current = window.setInterval(() => {
+        setElapsed((performance.now() - startedAt) / 1000);
+      }, 200);
+    }, 1000);
+  };
+
+  const handleStop = async () => {
+    const recorder = recorderRef.current;
+    clearTimers();
+    setLevel(0);
+    setState('idle');
+    if (!recorder) return;
+
+    try {
+      if (recorder.isRecording()) {
+        onRecorded(await recorder.stop());
+      }
+    } catch (err: any) {
+      setError(err.message || 'Recording failed.');
+    } finally {
+      recorder.close();
+      recorderRef.current = null;
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="border-2 border-dashed border-gray-700 rounded-lg p-6 text-center bg-gray-900/50 space-y-4">
+        {state === 'countdown' && (
+          <div className="text-5xl font-bold text-white">{countdown}</div>
+        )}
+        {state === 'recording' && (
+          <div className="flex items-center justify-center space-x-2 text-red-400 font-mono">
+            <span className="w-3 h-3 rounded-full bg-red-500 animate-pulse" />
+            <span>REC {formatElapsed(elapsed)}</span>
+          </div>
+        )}
+        {state === 'idle' && (
+          <div className="text-4xl">🎙️</div>
+        )}
+
+        {/* Level Meter */}
+        {state !== 'idle' && (
+          <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className={`h-full transition-[width] duration-75 ${level > 0.9 ? 'bg-red-500' : level > 0.6 ? 'bg-amber-400' : 'bg-green-500'}`}
+              style={{ width: `${Math.round(level * 100)}%` }}
+            />
+          </div>
+        )}
+
+        {state === 'idle' ? (
+          <button
+            onClick={handleRecord}
+            className="px-4 py-2 rounded-lg font-medium text-white bg-red-600 hover:bg-red-700 transition-colors"
+          >
+            {recordedBlob ? '● Re-take' : '● Record'}
+          </button>
+        ) : (
+          <button
+            onClick={handleStop}
+            className="px-4 py-2 rounded-lg font-medium text-white bg-gray-700 hover:bg-gray-600 transition-colors"
+          >
+            {state === 'countdown' ? 'Cancel' : '■ Stop'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-red-400 text-sm bg-red-900/20 p-2 rounded">{error}</p>
+      )}
+
+      {previewUrl && state === 'idle' && (
+        <div className="bg-green-900/20 border border-green-800 p-3 rounded-lg space-y-2">
+          <span className="text-green-400 text-sm">Recording ready</span>
+          <audio src={previewUrl} controls className="w-full h-8" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecordPanel;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { getSessionElapsed } from '../utils/sessionRecorder';
+import { useAudioClock } from './useAudioClock';
+
+interface SessionRecorderControlProps {
+  isRecording: boolean;
+  isSaving: boolean; // Stopped, still encoding the file
+  onStart: () => void;
+  onStop: () => void;
+}
+
+const formatElapsed = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60);
+  const mm = m.toString().padStart(2, '0');
+  const ss = s.toString().padStart(2, '0');
+  return h > 0 ? `${h}:${mm}:${ss}` : `${mm}:${ss}`;
+};
+
+// Header button for recording the whole show
+const SessionRecorderControl: React.FC<SessionRecorderControlProps> = ({ isRecording, isSaving, onStart, onStop }) => {
+  useAudioClock(isRecording);
+
+  if (isSaving) {
+    return (
+      <span className="px-2 py-1.5 text-xs text-gray-400 font-mono">Saving...</span>
+    );
+  }
+
+  return (
+    <button
+      onClick={isRecording ? onStop : onStart}
+      className={`flex items-center space-x-1.5 px-2 py-1.5 rounded-lg border text-xs font-bold transition-colors ${isRecording ? 'bg-red-900/40 border-red-600 text-red-300' : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'}`}
+      title={isRecording ? 'Stop recording and download the session' : 'Record everything the board plays'}
+    >
+      <span className={`w-2.5 h-2.5 rounded-full bg-red-500 ${isRecording ? 'animate-pulse' : ''}`} />
+      <span className="font-mono">{isRecording ? formatElapsed(getSessionElapsed()) : 'REC'}</span>
+    </button>
+  );
+};
+
+export default SessionRecorderControl;
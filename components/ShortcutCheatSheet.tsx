@@ -0,0 +1,121 @@
+import React from 'react';
+import { BoardSettings, PadBank, SoundPadData, MidiMappings, GamepadMappings } from '../types';
+import { RESERVED_SHORTCUTS, ReservedShortcut, formatShortcutLabel } from '../utils/shortcuts';
+import { formatMidiBinding } from '../utils/midi';
+import { formatGamepadBinding } from '../utils/gamepad';
+
+interface ShortcutCheatSheetProps {
+  isOpen: boolean;
+  pads: SoundPadData[];
+  banks: PadBank[];
+  settings: BoardSettings;
+  onClose: () => void;
+}
+
+const MIDI_LABELS: { key: keyof MidiMappings; label: string }[] = [
+  { key: 'stopAll', label: 'Stop all sounds' },
+  { key: 'fade', label: 'Fade out all sounds' },
+  { key: 'masterVolume', label: 'Master volume' },
+];
+
+const GAMEPAD_LABELS: { key: keyof GamepadMappings; label: string }[] = [
+  { key: 'stopAll', label: 'Stop all sounds' },
+  { key: 'fade', label: 'Fade out all sounds' },
+  { key: 'nextBank', label: 'Next bank' },
+];
+
+// Long runs like Alt+1..Alt+9 read better as a range
+const formatReservedCombos = ({ combos }: ReservedShortcut) => {
+  const labels = combos.map(formatShortcutLabel);
+  return labels.length > 3 ? `${labels[0]} … ${labels[labels.length - 1]}` : labels.join(' / ');
+};
+
+const Key: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <kbd className="px-1.5 py-0.5 rounded bg-gray-800 border border-gray-600 text-xs font-mono text-gray-200 whitespace-nowrap">{children}</kbd>
+);
+
+// Overlay listing every binding on the board: app keys, controller mappings and pads
+const ShortcutCheatSheet: React.FC<ShortcutCheatSheetProps> = ({ isOpen, pads, banks, settings, onClose }) => {
+  if (!isOpen) return null;
+
+  const boundPads = pads.filter(p => p.audioBlob && (p.shortcut || p.midiBinding || p.gamepadBinding));
+  const controllerMappings: { key: string; label: string; binding: string }[] = [];
+  MIDI_LABELS.forEach(({ key, label }) => {
+    const binding = settings.midiMappings[key];
+    if (binding) controllerMappings.push({ key: `midi-${key}`, label, binding: formatMidiBinding(binding) });
+  });
+  GAMEPAD_LABELS.forEach(({ key, label }) => {
+    const binding = settings.gamepadMappings[key];
+    if (binding) controllerMappings.push({ key: `gamepad-${key}`, label, binding: formatGamepadBinding(binding) });
+  });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-70 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="bg-gray-850 rounded-xl border border-gray-700 shadow-2xl w-full max-w-2xl overflow-hidden flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-6 border-b border-gray-700 bg-gray-900 flex items-center justify-between">
+          <h2 className="text-xl font-bold text-white">Shortcuts</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-xl leading-none" title="Close">×</button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto space-y-6">
+          <section>
+            <h3 className="text-xs text-gray-400 uppercase font-bold mb-2">Board</h3>
+            <div className="space-y-1">
+              {RESERVED_SHORTCUTS.map(reserved => (
+                <div key={reserved.action} className="flex items-center justify-between text-sm">
+                  <span className="text-gray-300">
+                    {reserved.label}
+                    {reserved.context && <span className="text-gray-500"> ({reserved.context})</span>}
+                  </span>
+                  <Key>{formatReservedCombos(reserved)}</Key>
+                </div>
+              ))}
+              {controllerMappings.map(mapping => (
+                <div key={mapping.key} className="flex items-center justify-between text-sm">
+                  <span className="text-gray-300">{mapping.label}</span>
+                  <Key>{mapping.binding}</Key>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          {banks.map(bank => {
+            const bankPads = boundPads.filter(p => p.bankId === bank.id);
+            if (bankPads.length === 0) return null;
+            return (
+              <section key={bank.id}>
+                <h3 className="text-xs text-gray-400 uppercase font-bold mb-2">Bank {bank.name}</h3>
+                <div className="space-y-1">
+                  {bankPads.map(pad => (
+                    <div key={pad.id} className="flex items-center justify-between gap-2 text-sm">
+                      <span className="text-gray-300 truncate">
+                        {pad.isGlobal && <span title="Global shortcut">🌐 </span>}
+                        {pad.name}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        {pad.shortcut && <Key>{formatShortcutLabel(pad.shortcut)}</Key>}
+                        {pad.midiBinding && <Key>{formatMidiBinding(pad.midiBinding)}</Key>}
+                        {pad.gamepadBinding && <Key>{formatGamepadBinding(pad.gamepadBinding)}</Key>}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            );
+          })}
+
+          {boundPads.length === 0 && (
+            <p className="text-sm text-gray-500">No pads have a shortcut yet. Set one in Edit mode.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutCheatSheet;
@@ -0,0 +1,131 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface WaveformEditorProps {
+  buffer: AudioBuffer;
+  startTime: number;
+  endTime: number;
+  onChange: (startTime: number, endTime: number) => void;
+}
+
+type Marker = 'start' | 'end';
+
+const CANVAS_HEIGHT = 80;
+// Markers can't be dragged closer together than this
+const MIN_TRIM_SECONDS = 0.05;
+
+// Min/max sample per pixel column, mixed down across channels
+const computePeaks = (buffer: AudioBuffer, columns: number): Array<[number, number]> => {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const samplesPerColumn = Math.max(1, Math.floor(buffer.length / columns));
+  const peaks: Array<[number, number]> = [];
+
+  for (let col = 0; col < columns; col++) {
+    let min = 0;
+    let max = 0;
+    const from = col * samplesPerColumn;
+    const to = Math.min(buffer.length, from + samplesPerColumn);
+    for (let i = from; i < to; i++) {
+      for (const data of channels) {
+        if (data[i] < min) min = data[i];
+        if (data[i] > max) max = data[i];
+      }
+    }
+    peaks.push([min, max]);
+  }
+  return peaks;
+};
+
+const formatSeconds = (seconds: number) => `${seconds.toFixed(2)}s`;
+
+const WaveformEditor: React.FC<WaveformEditorProps> = ({ buffer, startTime, endTime, onChange }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [dragging, setDragging] = useState<Marker | null>(null);
+
+  const duration = buffer.duration;
+
+  // Redraw the waveform when the buffer changes
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const width = canvas.clientWidth * window.devicePixelRatio;
+    const height = CANVAS_HEIGHT * window.devicePixelRatio;
+    canvas.width = width;
+    canvas.height = height;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, width, height);
+    ctx.fillStyle = '#60a5fa';
+
+    const peaks = computePeaks(buffer, width);
+    const mid = height / 2;
+    peaks.forEach(([min, max], x) => {
+      const top = mid - max * mid;
+      const bottom = mid - min * mid;
+      ctx.fillRect(x, top, 1, Math.max(1, bottom - top));
+    });
+  }, [buffer]);
+
+  const timeFromClientX = (clientX: number): number => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return ratio * duration;
+  };
+
+  const moveMarker = (marker: Marker, clientX: number) => {
+    const time = timeFromClientX(clientX);
+    if (marker === 'start') {
+      onChange(Math.min(time, endTime - MIN_TRIM_SECONDS), endTime);
+    } else {
+      onChange(startTime, Math.max(time, startTime + MIN_TRIM_SECONDS));
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    // Grab whichever marker is closer to the pointer
+    const time = timeFromClientX(e.clientX);
+    const marker: Marker = Math.abs(time - startTime) <= Math.abs(time - endTime) ? 'start' : 'end';
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragging(marker);
+    moveMarker(marker, e.clientX);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragging) moveMarker(dragging, e.clientX);
+  };
+
+  const startPercent = (startTime / duration) * 100;
+  const endPercent = (endTime / duration) * 100;
+
+  return (
+    <div className="space-y-1">
+      <div
+        ref={containerRef}
+        className="relative bg-gray-900 border border-gray-700 rounded-lg overflow-hidden cursor-ew-resize select-none touch-none"
+        style={{ height: CANVAS_HEIGHT }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragging(null)}
+        onPointerCancel={() => setDragging(null)}
+      >
+        <canvas ref={canvasRef} className="w-full h-full block" />
+
+        {/* Trimmed-off regions */}
+        <div className="absolute inset-y-0 left-0 bg-black/60 pointer-events-none" style={{ width: `${startPercent}%` }} />
+        <div className="absolute inset-y-0 right-0 bg-black/60 pointer-events-none" style={{ width: `${100 - endPercent}%` }} />
+
+        {/* Markers */}
+        <div className="absolute inset-y-0 w-0.5 bg-green-400 pointer-events-none" style={{ left: `${startPercent}%` }} />
+        <div className="absolute inset-y-0 w-0.5 bg-red-400 pointer-events-none" style={{ left: `calc(${endPercent}% - 2px)` }} />
+      </div>
+      <div className="flex justify-between text-[11px] font-mono text-gray-500">
+        <span className="text-green-400">Start {formatSeconds(startTime)}</span>
+        <span>Length {formatSeconds(endTime - startTime)} of {formatSeconds(duration)}</span>
+        <span className="text-red-400">End {formatSeconds(endTime)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default WaveformEditor;
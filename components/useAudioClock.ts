@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import { getAudioTime } from '../utils/audio';
+
+// Re-renders every animation frame while running and returns the playback clock,
+// for progress bars and countdowns. Idle components don't schedule any frames.
+export const useAudioClock = (isRunning: boolean): number => {
+  const [now, setNow] = useState(getAudioTime);
+
+  useEffect(() => {
+    if (!isRunning) return;
+    let frame: number;
+    const tick = () => {
+      setNow(getAudioTime());
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(frame);
+  }, [isRunning]);
+
+  return now;
+};
+
+// "-0:42" style remaining time
+export const formatRemaining = (seconds: number): string => {
+  const whole = Math.ceil(seconds);
+  const m = Math.floor(whole / 60);
+  const s = whole % 60;
+  return `-${m}:${s.toString().padStart(2, '0')}`;
+};
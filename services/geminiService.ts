@@ -1,11 +1,21 @@
 import { GoogleGenAI, Modality } from "@google/genai";
-import { base64ToBlob } from '../utils/audio';
+import { createWavFile } from '../utils/audio';
+import { SpeechProvider, SpeechVoice } from './speechProvider';
 
 // NOTE: We do not check for API Key here. We assume the caller checks or the environment has it.
 // If process.env.API_KEY is missing, the GoogleGenAI constructor might throw or fail on call.
 // We'll handle errors gracefully in the UI.
 
-export const generateSpeech = async (text: string, voiceName: string = 'Kore'): Promise<Blob> => {
+// Gemini's prebuilt voices; the API has no call to list them
+const GEMINI_VOICES: SpeechVoice[] = [
+  { id: 'Kore', label: 'Kore (Female, Soothing)' },
+  { id: 'Puck', label: 'Puck (Male, Energetic)' },
+  { id: 'Charon', label: 'Charon (Male, Deep)' },
+  { id: 'Fenrir', label: 'Fenrir (Male, Intense)' },
+  { id: 'Zephyr', label: 'Zephyr (Female, Calm)' },
+];
+
+const generateSpeech = async (text: string, voiceName: string = 'Kore'): Promise<Blob> => {
   if (!process.env.API_KEY) {
     throw new Error("API Key is missing. Please check your environment configuration.");
   }
@@ -73,47 +83,9 @@ export const generateSpeech = async (text: string, voiceName: string = 'Kore'):
   return wavBlob;
 };
 
-// Helper to create a WAV header for raw PCM data
-function createWavFile(samples: Uint8Array, sampleRate: number, numChannels: number, bitDepth: number): Blob {
-  const buffer = new ArrayBuffer(44 + samples.length);
-  const view = new DataView(buffer);
-
-  // RIFF identifier
-  writeString(view, 0, 'RIFF');
-  // RIFF chunk length
-  view.setUint32(4, 36 + samples.length, true);
-  // RIFF type
-  writeString(view, 8, 'WAVE');
-  // format chunk identifier
-  writeString(view, 12, 'fmt ');
-  // format chunk length
-  view.setUint32(16, 16, true);
-  // sample format (raw)
-  view.setUint16(20, 1, true);
-  // channel count
-  view.setUint16(22, numChannels, true);
-  // sample rate
-  view.setUint32(24, sampleRate, true);
-  // byte rate (sample rate * block align)
-  view.setUint32(28, sampleRate * numChannels * (bitDepth / 8), true);
-  // block align (channel count * bytes per sample)
-  view.setUint16(32, numChannels * (bitDepth / 8), true);
-  // bits per sample
-  view.setUint16(34, bitDepth, true);
-  // data chunk identifier
-  writeString(view, 36, 'data');
-  // data chunk length
-  view.setUint32(40, samples.length, true);
-
-  // write the PCM samples
-  const dataView = new Uint8Array(buffer, 44);
-  dataView.set(samples);
-
-  return new Blob([buffer], { type: 'audio/wav' });
-}
-
-function writeString(view: DataView, offset: number, string: string) {
-  for (let i = 0; i < string.length; i++) {
-    view.setUint8(offset + i, string.charCodeAt(i));
-  }
-}
\ No newline at end of file
+export const geminiSpeechProvider: SpeechProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  listVoices: async () => GEMINI_VOICES,
+  synthesize: generateSpeech,
+};
@@ -0,0 +1,66 @@
+import { SpeechProvider, SpeechVoice } from './speechProvider';
+
+// Speech from a TTS server on the local network (or a stub during testing). The server needs two routes:
+//   GET  {endpoint}/voices      -> [{ "id": "en-1", "label": "English 1" }, ...]
+//   POST {endpoint}/synthesize  <- { "text": "...", "voice": "en-1" }, replies with the audio file (WAV, MP3, ...)
+
+let endpoint = '';
+
+// Set from the board settings; a trailing slash is dropped so routes can be appended
+export const setLocalSpeechEndpoint = (url: string) => {
+  endpoint = url.trim().replace(/\/+$/, '');
+};
+
+const requireEndpoint = (): string => {
+  if (!endpoint) {
+    throw new Error("No local speech server is set. Add its address under Board Settings > Speech.");
+  }
+  return endpoint;
+};
+
+const request = async (path: string, init?: RequestInit): Promise<Response> => {
+  const url = `${requireEndpoint()}${path}`;
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (e) {
+    throw new Error(`Could not reach the speech server at ${url}.`);
+  }
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`Speech server error ${response.status}${detail ? `: ${detail}` : ''}`);
+  }
+  return response;
+};
+
+const listVoices = async (): Promise<SpeechVoice[]> => {
+  const response = await request('/voices');
+  const data = await response.json();
+  if (!Array.isArray(data)) {
+    throw new Error("The speech server's voice list isn't an array.");
+  }
+  // Accept bare voice names as well as { id, label } records
+  return data.map((voice: string | Partial<SpeechVoice>) => typeof voice === 'string'
+    ? { id: voice, label: voice }
+    : { id: String(voice.id), label: voice.label || String(voice.id) });
+};
+
+const synthesize = async (text: string, voiceId: string): Promise<Blob> => {
+  const response = await request('/synthesize', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text, voice: voiceId }),
+  });
+  const blob = await response.blob();
+  if (blob.size === 0) {
+    throw new Error("The speech server returned no audio.");
+  }
+  return blob;
+};
+
+export const localSpeechProvider: SpeechProvider = {
+  id: 'local',
+  label: 'Local server',
+  listVoices,
+  synthesize,
+};
@@ -0,0 +1,27 @@
+import { geminiSpeechProvider } from './geminiService';
+import { localSpeechProvider } from './localSpeechService';
+
+// A text-to-speech backend for the AI tab. Providers are stateless apart from their
+// own configuration, so the modal can switch between them freely.
+
+export interface SpeechVoice {
+  id: string; // Passed back to synthesize()
+  label: string; // e.g. "Kore (Female, Soothing)"
+}
+
+export interface SpeechProvider {
+  id: string;
+  label: string;
+  listVoices: () => Promise<SpeechVoice[]>;
+  // Resolves to audio that decodeAudioData can read (WAV, MP3, ...), so it can be stored on a pad as-is
+  synthesize: (text: string, voiceId: string) => Promise<Blob>;
+}
+
+const PROVIDERS: SpeechProvider[] = [geminiSpeechProvider, localSpeechProvider];
+
+export const DEFAULT_SPEECH_PROVIDER_ID = geminiSpeechProvider.id;
+
+export const getSpeechProviders = (): SpeechProvider[] => PROVIDERS;
+
+export const getSpeechProvider = (id: string): SpeechProvider =>
+  PROVIDERS.find(provider => provider.id === id) || geminiSpeechProvider;
@@ -1,12 +1,150 @@
-export interface SoundPadData {
+// Per-pad effects; a missing value means the effect is off
+export interface PadEffects {
+  playbackRate?: number; // Speed, 1 = normal; pitch follows, like a tape
+  pitch?: number; // Semitones; also changes the speed
+  pan?: number; // -1 (left) .. 1 (right)
+  eqLow?: number; // dB, shelf at 250 Hz
+  eqMid?: number; // dB, peak at 1 kHz
+  eqHigh?: number; // dB, shelf at 4 kHz
+  reverbSend?: number; // 0..1
+}
+
+export interface SoundPadData extends PadEffects {
   id: string;
+  bankId: string; // The bank (page) this pad lives on
   name: string;
   color: string;
   volume: number;
   shortcut?: string;
+  isGlobal?: boolean; // Shortcut fires from any bank, not just the active one
+  playbackPolicy?: PlaybackPolicy; // Defaults to solo
+  isBed?: boolean; // Background bed: ducks under other sounds instead of being cut by them
+  chokeGroup?: number; // Only used by the choke policy
+  triggerMode?: TriggerMode; // Defaults to one-shot
+  loopStart?: number; // Seconds; only used in loop mode
+  loopEnd?: number;
+  startTime?: number; // Non-destructive trim in seconds; the blob itself is never cut
+  endTime?: number;
+  fadeIn?: number; // Seconds
+  fadeOut?: number; // Seconds; at the natural end and when stopped early
+  fadeCurve?: FadeCurve; // Defaults to linear
+  midiBinding?: MidiBinding; // Note or CC that triggers the pad
+  midiVelocity?: boolean; // Scale volume by note velocity
+  gamepadBinding?: GamepadBinding; // Gamepad button or axis that triggers the pad
+  loudness?: LoudnessAnalysis; // Measured when the audio is saved
   audioBlob?: Blob; // The actual audio data
 }
 
+// Everything the edit modal controls; identity, audio and its analysis are handled by the caller
+export type PadSettings = Omit<SoundPadData, 'id' | 'bankId' | 'audioBlob' | 'loudness'>;
+
+export interface LoudnessAnalysis {
+  peak: number; // dBFS
+  rms: number; // dBFS
+  lufs: number; // Integrated loudness estimate
+}
+
+export interface PadBank {
+  id: string;
+  name: string;
+  order: number; // Position in the bank switcher
+}
+
+// One step of a cue list. Cues point at pads by id, so editing a pad changes its cue too.
+export interface Cue {
+  id: string;
+  padId: string;
+  preWait?: number; // Seconds between GO and the sound starting
+  autoFollow?: boolean; // GO the next cue when this one's sound ends
+  fadePrevious?: number; // Fade out cues still playing over this many seconds (0 = cut); unset leaves them
+  note?: string; // Operator's note, e.g. the line the cue comes on
+}
+
+export interface CueList {
+  id: string;
+  name: string;
+  cues: Cue[];
+}
+
+export enum SessionFormat {
+  WEBM = 'webm', // Compressed, straight from MediaRecorder
+  WAV = 'wav', // Rendered from the WebM when the session stops
+}
+
+export interface BoardSettings {
+  rows: number;
+  cols: number;
+  cacheBudgetSeconds: number; // Total decoded audio kept in memory
+  midiMappings: MidiMappings;
+  gamepadMappings: GamepadMappings;
+  normalizeLoudness: boolean; // Bring every pad toward targetLufs; volume stays a trim on top
+  targetLufs: number;
+  duckDepthDb: number; // How far beds dip while other sounds play; 0 turns ducking off
+  duckAttack: number; // Seconds
+  duckRelease: number; // Seconds
+  masterCompressor: boolean;
+  compressorThreshold: number; // dBFS
+  masterLimiter: boolean;
+  limiterThreshold: number; // dBFS
+  sessionFormat: SessionFormat; // File type for session recordings
+  speechEndpoint: string; // Base URL of the local TTS server; empty when there isn't one
+}
+
+export const DEFAULT_BOARD_SETTINGS: BoardSettings = {
+  rows: 4,
+  cols: 4,
+  cacheBudgetSeconds: 300,
+  midiMappings: {},
+  gamepadMappings: {},
+  normalizeLoudness: false,
+  targetLufs: -16,
+  duckDepthDb: 12,
+  duckAttack: 0.2,
+  duckRelease: 1,
+  masterCompressor: false,
+  compressorThreshold: -18,
+  masterLimiter: true,
+  limiterThreshold: -1,
+  sessionFormat: SessionFormat.WEBM,
+  speechEndpoint: '',
+};
+
+export enum MidiMessageType {
+  NOTE = 'note',
+  CC = 'cc',
+}
+
+export interface MidiBinding {
+  type: MidiMessageType;
+  channel: number; // 0..15
+  number: number; // Note or controller number
+}
+
+// Board-wide controls that aren't tied to a pad
+export interface MidiMappings {
+  stopAll?: MidiBinding;
+  fade?: MidiBinding;
+  masterVolume?: MidiBinding; // CC; the value sets the volume
+}
+
+export enum GamepadInputType {
+  BUTTON = 'button',
+  AXIS = 'axis',
+}
+
+// Matches on any connected gamepad; foot switches often show up as a button or a half axis
+export interface GamepadBinding {
+  type: GamepadInputType;
+  index: number;
+  direction?: 1 | -1; // Axes only: which way the axis has to be pushed
+}
+
+export interface GamepadMappings {
+  stopAll?: GamepadBinding;
+  fade?: GamepadBinding;
+  nextBank?: GamepadBinding;
+}
+
 export interface SoundPadConfig {
   id: string;
   name: string;
@@ -47,7 +185,29 @@ export const AVAILABLE_COLORS = [
   { label: 'Gray', value: PadColor.SLATE },
 ];
 
+export enum PlaybackPolicy {
+  SOLO = 'solo', // Stops everything else before playing (beds only stop other beds)
+  LAYER = 'layer', // Plays over whatever is already running
+  CHOKE = 'choke', // Only cuts pads in the same choke group
+}
+
+export const CHOKE_GROUP_COUNT = 8;
+
+export enum TriggerMode {
+  ONE_SHOT = 'oneShot', // Fire and forget
+  TOGGLE = 'toggle', // Press again to stop
+  GATE = 'gate', // Plays only while held
+  LOOP = 'loop', // Loops until pressed again
+}
+
+export enum FadeCurve {
+  LINEAR = 'linear',
+  EXPONENTIAL = 'exponential',
+  EQUAL_POWER = 'equalPower',
+}
+
 export enum ModalTab {
   UPLOAD = 'Upload File',
   AI_GENERATE = 'AI Generate',
-}
\ No newline at end of file
+  RECORD = 'Record',
+}
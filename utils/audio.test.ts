@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { ActiveVoice, getVoiceProgress } from './audio';
+
+const voice = (overrides: Partial<ActiveVoice>): ActiveVoice => ({
+  id: 1,
+  isLooping: false,
+  isBed: false,
+  isStopping: false,
+  startedAt: 10,
+  duration: 4,
+  leadIn: 0,
+  playbackRate: 1,
+  played: 0,
+  playedAt: 10,
+  ...overrides,
+});
+
+describe('getVoiceProgress', () => {
+  it('measures a one-shot voice through its clip', () => {
+    expect(getVoiceProgress(voice({}), 11)).toEqual({ fraction: 0.25, remaining: 3 });
+    expect(getVoiceProgress(voice({}), 20)).toEqual({ fraction: 1, remaining: 0 });
+  });
+
+  it('keeps what has already played when the rate changes', () => {
+    // Two seconds at normal speed, then double speed from t=12
+    const progress = getVoiceProgress(voice({ playbackRate: 2, played: 2, playedAt: 12 }), 12.5);
+    expect(progress.fraction).toBe(0.75);
+    expect(progress.remaining).toBe(0.5);
+  });
+
+  it('measures loops within the loop region, after the lead-in', () => {
+    const loop = voice({ isLooping: true, duration: 2, leadIn: 1 });
+    expect(getVoiceProgress(loop, 10.5)).toEqual({ fraction: 0, remaining: null });
+    expect(getVoiceProgress(loop, 11.5)).toEqual({ fraction: 0.25, remaining: null });
+    // Second pass wraps back to the loop start, not the trim start
+    expect(getVoiceProgress(loop, 13.5)).toEqual({ fraction: 0.25, remaining: null });
+  });
+
+  it('treats an empty clip as finished', () => {
+    expect(getVoiceProgress(voice({ duration: 0 }), 11)).toEqual({ fraction: 1, remaining: 0 });
+  });
+});
@@ -1,15 +1,403 @@
+import { PlaybackPolicy, SoundPadData, TriggerMode, FadeCurve, LoudnessAnalysis, PadEffects, DEFAULT_BOARD_SETTINGS } from '../types';
+import { getDecodedBuffer } from './bufferCache';
+import { analyzeLoudness, getNormalizationGain } from './loudness';
+
 // AudioContext singleton to reuse across the app
 let audioContext: AudioContext | null = null;
 let masterGainNode: GainNode | null = null;
+// Master bus: gain -> [compressor] -> [limiter] -> meter -> destination
+let compressorNode: DynamicsCompressorNode | null = null;
+let limiterNode: DynamicsCompressorNode | null = null;
+let meterNode: AnalyserNode | null = null;
+let meterData: Float32Array | null = null;
+
+export interface MasterDynamicsSettings {
+  compressor: boolean;
+  compressorThreshold: number; // dBFS
+  limiter: boolean;
+  limiterThreshold: number; // dBFS ceiling
+}
+
+export interface MasterLevels {
+  peak: number; // 0..1+ (above 1 is clipping)
+  rms: number;
+}
+
+let masterDynamics: MasterDynamicsSettings = {
+  compressor: DEFAULT_BOARD_SETTINGS.masterCompressor,
+  compressorThreshold: DEFAULT_BOARD_SETTINGS.compressorThreshold,
+  limiter: DEFAULT_BOARD_SETTINGS.masterLimiter,
+  limiterThreshold: DEFAULT_BOARD_SETTINGS.limiterThreshold,
+};
+
+// Shared reverb for every pad's send; created on first use
+let reverbNode: ConvolverNode | null = null;
+// Every bed voice plays through this bus, so ducking is one gain change
+let bedBusNode: GainNode | null = null;
+let isDucked = false;
+
+export interface DuckingSettings {
+  depthDb: number;
+  attack: number; // Seconds
+  release: number;
+}
+
+let ducking: DuckingSettings = {
+  depthDb: DEFAULT_BOARD_SETTINGS.duckDepthDb,
+  attack: DEFAULT_BOARD_SETTINGS.duckAttack,
+  release: DEFAULT_BOARD_SETTINGS.duckRelease,
+};
 
 interface AudioSourceEntry {
+  id: number;
+  padId?: string;
   source: AudioBufferSourceNode;
   gain: GainNode;
+  effects: EffectNodes;
+  isBed: boolean;
+  chokeGroup?: number;
+  fadeOut: number;
+  fadeCurve: FadeCurve;
+  isReleasing?: boolean; // Fading out after an early stop
+  resolveEnded: (natural: boolean) => void;
+  startedAt: number; // AudioContext time the voice started
+  duration: number; // Seconds of audio per pass (the loop length for loops)
+  leadIn: number; // Seconds of audio between the trim start and the loop region
+  playbackRate: number;
+  // Progress is measured from the last rate change, not from startedAt, so
+  // changing the rate mid-voice doesn't rescale what has already played
+  played: number; // Seconds of audio played by playedAt
+  playedAt: number;
+}
+
+export interface PlaybackOptions extends PadEffects {
+  padId?: string; // Lets listeners map voices back to pads
+  policy?: PlaybackPolicy;
+  chokeGroup?: number;
+  isBed?: boolean; // Plays through the ducked bed bus
+  loop?: boolean;
+  loopStart?: number; // Seconds; only used when looping
+  loopEnd?: number;
+  startTime?: number; // Non-destructive trim, in seconds into the clip
+  endTime?: number;
+  fadeIn?: number; // Seconds
+  fadeOut?: number; // Applied at the natural end and when the voice is stopped early
+  fadeCurve?: FadeCurve;
+  normalizationGain?: number; // Loudness correction, multiplied with the volume
+  liveEffects?: boolean; // Build every effect node, even at defaults, so updateEffects can change them all (previews)
+}
+
+// Returned by playAudioBlob so the caller can stop the specific voice it started
+export interface VoiceHandle {
+  id: number;
+  padId?: string;
+  isPlaying: () => boolean;
+  stop: (fadeOut?: number) => void; // Fades over the pad's own fade-out unless given one
+  ended: Promise<boolean>; // Resolves when the voice is gone; true if it played to its end
+  updateEffects: (effects: PadEffects) => void; // Only reaches effects the voice was built with
 }
 
+// Snapshot of a running voice, published to subscribers whenever a voice starts,
+// ends or begins fading out. Timing is in AudioContext seconds (see getAudioTime).
+export interface ActiveVoice {
+  id: number;
+  padId?: string;
+  isLooping: boolean;
+  isBed: boolean;
+  isStopping: boolean; // Fading out early; it ends before its duration is up
+  startedAt: number;
+  duration: number; // Seconds of audio per pass (the loop length for loops)
+  leadIn: number; // Seconds of audio played before a loop first reaches its loop region
+  playbackRate: number; // Audio seconds per real second
+  played: number; // Seconds of audio played by playedAt, the last rate change
+  playedAt: number;
+}
+
+export interface VoiceProgress {
+  fraction: number; // 0..1 through the clip (or through the current loop pass)
+  remaining: number | null; // Real seconds left; null for loops, which don't end on their own
+}
+
+type VoiceListener = (voices: ActiveVoice[]) => void;
+
 // Keep track of active sources and their gain nodes to allow Stop/Fade functionality
 const activeSources: Set<AudioSourceEntry> = new Set();
+const voiceListeners: Set<VoiceListener> = new Set();
 let fadeTimeout: number | null = null;
+let nextVoiceId = 1;
+
+const notifyVoiceListeners = () => {
+  const voices: ActiveVoice[] = Array.from(activeSources, ({ id, padId, source, isBed, isReleasing, startedAt, duration, leadIn, playbackRate, played, playedAt }) => ({
+    id,
+    padId,
+    isLooping: source.loop,
+    isBed,
+    isStopping: !!isReleasing,
+    startedAt,
+    duration,
+    leadIn,
+    playbackRate,
+    played,
+    playedAt,
+  }));
+  voiceListeners.forEach(listener => listener(voices));
+};
+
+// Subscribe to changes in the set of running voices. Returns an unsubscribe function.
+export const subscribeToVoices = (listener: VoiceListener): (() => void) => {
+  voiceListeners.add(listener);
+  return () => {
+    voiceListeners.delete(listener);
+  };
+};
+
+const removeEntry = (entry: AudioSourceEntry, natural = false) => {
+  if (activeSources.delete(entry)) {
+    updateDucking();
+    notifyVoiceListeners();
+    entry.resolveEnded(natural);
+  }
+};
+
+const getBedBus = (ctx: AudioContext): GainNode => {
+  if (!bedBusNode) {
+    bedBusNode = ctx.createGain();
+    bedBusNode.gain.value = isDucked ? Math.pow(10, -ducking.depthDb / 20) : 1;
+    bedBusNode.connect(masterGainNode ?? ctx.destination);
+  }
+  return bedBusNode;
+};
+
+// Beds dip while any other voice is running and come back once the last one ends
+const updateDucking = (force = false) => {
+  const shouldDuck = Array.from(activeSources).some(entry => !entry.isBed);
+  if (shouldDuck === isDucked && !force) return;
+  isDucked = shouldDuck;
+  if (!bedBusNode || !audioContext) return;
+
+  const now = audioContext.currentTime;
+  const target = isDucked ? Math.pow(10, -ducking.depthDb / 20) : 1;
+  const time = Math.max(isDucked ? ducking.attack : ducking.release, 0.01);
+  holdParamAt(bedBusNode.gain, now);
+  bedBusNode.gain.linearRampToValueAtTime(target, now + time);
+};
+
+export const setDuckingSettings = (settings: DuckingSettings) => {
+  ducking = settings;
+  // A new depth applies straight away to beds that are already ducked
+  updateDucking(true);
+};
+
+// Effect nodes for one voice; only the effects in use are created
+interface EffectNodes {
+  eq: Partial<Record<EqBand, BiquadFilterNode>>;
+  panner?: StereoPannerNode;
+  send?: GainNode;
+}
+
+type EqBand = 'eqLow' | 'eqMid' | 'eqHigh';
+
+const EQ_BANDS: { band: EqBand; type: BiquadFilterType; frequency: number }[] = [
+  { band: 'eqLow', type: 'lowshelf', frequency: 250 },
+  { band: 'eqMid', type: 'peaking', frequency: 1000 },
+  { band: 'eqHigh', type: 'highshelf', frequency: 4000 },
+];
+
+const REVERB_SECONDS = 2.5;
+
+// Speed and pitch both come out of the source's playback rate
+export const getEffectivePlaybackRate = ({ playbackRate, pitch }: PadEffects): number => {
+  return (playbackRate ?? 1) * Math.pow(2, (pitch ?? 0) / 12);
+};
+
+// Decaying stereo noise makes a plausible room without shipping an impulse response file
+const getReverbNode = (ctx: AudioContext): ConvolverNode => {
+  if (!reverbNode) {
+    const length = Math.round(ctx.sampleRate * REVERB_SECONDS);
+    const impulse = ctx.createBuffer(2, length, ctx.sampleRate);
+    for (let channel = 0; channel < 2; channel++) {
+      const data = impulse.getChannelData(channel);
+      for (let i = 0; i < length; i++) {
+        data[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / length, 3);
+      }
+    }
+    reverbNode = ctx.createConvolver();
+    reverbNode.buffer = impulse;
+    reverbNode.connect(masterGainNode ?? ctx.destination);
+  }
+  return reverbNode;
+};
+
+// Drops the reverb tail; the next send builds a fresh convolver
+const resetReverb = () => {
+  reverbNode?.disconnect();
+  reverbNode = null;
+};
+
+// Pad gain -> [EQ] -> [Pan] -> output, with the reverb send tapped after the pan.
+// Effects at their defaults get no node unless `all` is set.
+const buildEffectsChain = (ctx: AudioContext, input: AudioNode, effects: PadEffects, all: boolean): { nodes: EffectNodes; output: AudioNode } => {
+  const nodes: EffectNodes = { eq: {} };
+  let output = input;
+
+  EQ_BANDS.forEach(({ band, type, frequency }) => {
+    const gain = effects[band] ?? 0;
+    if (!gain && !all) return;
+    const filter = ctx.createBiquadFilter();
+    filter.type = type;
+    filter.frequency.value = frequency;
+    filter.gain.value = gain;
+    output.connect(filter);
+    output = filter;
+    nodes.eq[band] = filter;
+  });
+
+  if (effects.pan || all) {
+    const panner = ctx.createStereoPanner();
+    panner.pan.value = effects.pan ?? 0;
+    output.connect(panner);
+    output = panner;
+    nodes.panner = panner;
+  }
+
+  if (effects.reverbSend || all) {
+    const send = ctx.createGain();
+    send.gain.value = effects.reverbSend ?? 0;
+    output.connect(send);
+    send.connect(getReverbNode(ctx));
+    nodes.send = send;
+  }
+
+  return { nodes, output };
+};
+
+const updateEffectNodes = (entry: AudioSourceEntry, effects: PadEffects) => {
+  const ctx = getAudioContext();
+  const now = ctx.currentTime;
+  // Short glide so slider moves don't click
+  const glide = (param: AudioParam, value: number) => param.setTargetAtTime(value, now, 0.02);
+
+  const rate = getEffectivePlaybackRate(effects);
+  glide(entry.source.playbackRate, rate);
+  if (rate !== entry.playbackRate) {
+    entry.played += Math.max(now - entry.playedAt, 0) * entry.playbackRate;
+    entry.playedAt = now;
+    entry.playbackRate = rate;
+  }
+  EQ_BANDS.forEach(({ band }) => {
+    const filter = entry.effects.eq[band];
+    if (filter) glide(filter.gain, effects[band] ?? 0);
+  });
+  if (entry.effects.panner) glide(entry.effects.panner.pan, effects.pan ?? 0);
+  if (entry.effects.send) glide(entry.effects.send.gain, effects.reverbSend ?? 0);
+  notifyVoiceListeners();
+};
+
+const FADE_CURVE_STEPS = 64;
+
+// Rising 0..1 shape for each curve type
+const FADE_SHAPES: Record<FadeCurve, (t: number) => number> = {
+  [FadeCurve.LINEAR]: t => t,
+  [FadeCurve.EXPONENTIAL]: t => (Math.exp(5 * t) - 1) / (Math.exp(5) - 1),
+  [FadeCurve.EQUAL_POWER]: t => Math.sin((t * Math.PI) / 2),
+};
+
+// Gain values for a fade between two levels. Fade-outs use the mirrored shape so
+// an exponential fade drops quickly then tails off, and equal-power follows a cosine.
+const buildFadeCurve = (curve: FadeCurve, from: number, to: number): Float32Array => {
+  const shape = FADE_SHAPES[curve];
+  const values = new Float32Array(FADE_CURVE_STEPS);
+  for (let i = 0; i < FADE_CURVE_STEPS; i++) {
+    const t = i / (FADE_CURVE_STEPS - 1);
+    values[i] = to >= from
+      ? from + (to - from) * shape(t)
+      : to + (from - to) * shape(1 - t);
+  }
+  return values;
+};
+
+// Freeze a param at its current value so new automation can start from there
+const holdParamAt = (param: AudioParam, time: number) => {
+  if (typeof param.cancelAndHoldAtTime === 'function') {
+    param.cancelAndHoldAtTime(time);
+  } else {
+    // Read first: cancelling may snap the value back
+    const current = param.value;
+    param.cancelScheduledValues(0);
+    param.setValueAtTime(current, time);
+  }
+};
+
+const stopEntry = (entry: AudioSourceEntry) => {
+  try {
+    entry.gain.gain.cancelScheduledValues(0);
+    entry.source.stop();
+  } catch (e) {
+    // Ignore errors if already stopped
+  }
+  removeEntry(entry);
+};
+
+// Stop a voice early, using its own fade-out (or the one given) if it has one
+const releaseEntry = (entry: AudioSourceEntry, fadeOut: number = entry.fadeOut) => {
+  if (!activeSources.has(entry)) return;
+  // A second stop while fading out cuts the voice immediately
+  if (fadeOut <= 0 || entry.isReleasing) {
+    stopEntry(entry);
+    return;
+  }
+  entry.isReleasing = true;
+  notifyVoiceListeners();
+
+  const ctx = getAudioContext();
+  const now = ctx.currentTime;
+  try {
+    const param = entry.gain.gain;
+    const current = param.value;
+    holdParamAt(param, now);
+    // Start the curve just after the hold point so the two events don't collide
+    param.setValueCurveAtTime(buildFadeCurve(entry.fadeCurve, current, 0), now + 0.001, fadeOut);
+    entry.source.stop(now + 0.001 + fadeOut);
+  } catch (e) {
+    stopEntry(entry);
+  }
+};
+
+// Current playback clock, for rendering voice progress
+export const getAudioTime = (): number => audioContext?.currentTime ?? 0;
+
+export const getVoiceProgress = (voice: ActiveVoice, now: number = getAudioTime()): VoiceProgress => {
+  const played = voice.played + Math.max(now - voice.playedAt, 0) * voice.playbackRate;
+  if (voice.duration <= 0) return { fraction: 1, remaining: voice.isLooping ? null : 0 };
+  if (voice.isLooping) {
+    // A loop plays from the trim start into its loop region, then wraps within the region
+    const intoLoop = Math.max(played - voice.leadIn, 0);
+    return { fraction: (intoLoop % voice.duration) / voice.duration, remaining: null };
+  }
+  const clamped = Math.min(played, voice.duration);
+  return {
+    fraction: clamped / voice.duration,
+    remaining: (voice.duration - clamped) / voice.playbackRate,
+  };
+};
+
+// Wires the master bus for the current dynamics settings; disabled stages are bypassed
+const connectMasterBus = () => {
+  if (!audioContext || !masterGainNode || !compressorNode || !limiterNode || !meterNode) return;
+  const now = audioContext.currentTime;
+  compressorNode.threshold.setValueAtTime(masterDynamics.compressorThreshold, now);
+  limiterNode.threshold.setValueAtTime(masterDynamics.limiterThreshold, now);
+
+  masterGainNode.disconnect();
+  compressorNode.disconnect();
+  limiterNode.disconnect();
+
+  const stages: AudioNode[] = [masterGainNode];
+  if (masterDynamics.compressor) stages.push(compressorNode);
+  if (masterDynamics.limiter) stages.push(limiterNode);
+  stages.push(meterNode);
+  for (let i = 0; i < stages.length - 1; i++) stages[i].connect(stages[i + 1]);
+};
 
 export const getAudioContext = (): AudioContext => {
   if (!audioContext) {
@@ -17,11 +405,64 @@ export const getAudioContext = (): AudioContext => {
     // Create Master Gain Node
     masterGainNode = audioContext.createGain();
     masterGainNode.gain.value = 1.0;
-    masterGainNode.connect(audioContext.destination);
+
+    // Gentle bus compression
+    compressorNode = audioContext.createDynamicsCompressor();
+    compressorNode.ratio.value = 4;
+    compressorNode.knee.value = 6;
+    compressorNode.attack.value = 0.01;
+    compressorNode.release.value = 0.25;
+
+    // Hard knee, high ratio and fast attack: as close to a brickwall as the node gets
+    limiterNode = audioContext.createDynamicsCompressor();
+    limiterNode.ratio.value = 20;
+    limiterNode.knee.value = 0;
+    limiterNode.attack.value = 0.001;
+    limiterNode.release.value = 0.1;
+
+    // Output meter; sits last so it shows what actually reaches the speakers
+    meterNode = audioContext.createAnalyser();
+    meterNode.fftSize = 2048;
+    meterData = new Float32Array(meterNode.fftSize);
+    meterNode.connect(audioContext.destination);
+
+    connectMasterBus();
   }
   return audioContext;
 };
 
+export const setMasterDynamics = (settings: MasterDynamicsSettings) => {
+  masterDynamics = settings;
+  connectMasterBus();
+};
+
+// A stream of exactly what reaches the speakers (after dynamics), for recording.
+// Call the returned release function when done so the tap stops costing anything.
+export const tapMasterOutput = (): { stream: MediaStream; release: () => void } => {
+  const ctx = getAudioContext();
+  const tap = ctx.createMediaStreamDestination();
+  meterNode?.connect(tap);
+  return {
+    stream: tap.stream,
+    release: () => meterNode?.disconnect(tap),
+  };
+};
+
+// Current output levels; zero until audio has started
+export const getMasterLevels = (): MasterLevels => {
+  if (!meterNode || !meterData) return { peak: 0, rms: 0 };
+  meterNode.getFloatTimeDomainData(meterData);
+  let peak = 0;
+  let sumSquares = 0;
+  for (let i = 0; i < meterData.length; i++) {
+    const sample = meterData[i];
+    const abs = Math.abs(sample);
+    if (abs > peak) peak = abs;
+    sumSquares += sample * sample;
+  }
+  return { peak, rms: Math.sqrt(sumSquares / meterData.length) };
+};
+
 export const setMasterVolume = (volume: number) => {
   const ctx = getAudioContext();
   if (masterGainNode) {
@@ -37,16 +478,25 @@ export const stopAllSounds = () => {
     fadeTimeout = null;
   }
 
-  activeSources.forEach(({ source, gain }) => {
-    try {
-      // Cancel any scheduled ramps (e.g. if we interrupt a fade with a hard stop)
-      gain.gain.cancelScheduledValues(0);
-      source.stop();
-    } catch (e) {
-      // Ignore errors if already stopped
-    }
+  // Cancels any scheduled ramps too (e.g. if we interrupt a fade with a hard stop)
+  activeSources.forEach(stopEntry);
+  // Stop means silence, including reverb tails
+  resetReverb();
+};
+
+// Hard-stop every voice that belongs to the given choke group
+const stopChokeGroup = (group: number) => {
+  activeSources.forEach((entry) => {
+    if (entry.chokeGroup === group) stopEntry(entry);
+  });
+};
+
+// Solo for beds and for everything else: each only clears its own kind, so a
+// sting never cuts the music bed and a new bed replaces the old one
+const stopRole = (isBed: boolean) => {
+  activeSources.forEach((entry) => {
+    if (entry.isBed === isBed) stopEntry(entry);
   });
-  activeSources.clear();
 };
 
 export const fadeOutAllSounds = (duration: number) => {
@@ -68,12 +518,12 @@ export const fadeOutAllSounds = (duration: number) => {
 
   // Ramp down all active gains
   const endTime = ctx.currentTime + duration;
-  activeSources.forEach(({ gain }) => {
+  activeSources.forEach((entry) => {
+    const { gain } = entry;
+    entry.isReleasing = true;
     try {
-      // Cancel current scheduled values to start fresh
-      gain.gain.cancelScheduledValues(ctx.currentTime);
-      // Set value explicitly to current value to prevent jumping
-      gain.gain.setValueAtTime(gain.gain.value, ctx.currentTime);
+      // Cancel scheduled values (including per-pad fades) and hold the current value to prevent jumping
+      holdParamAt(gain.gain, ctx.currentTime);
       // Linear ramp to 0
       gain.gain.linearRampToValueAtTime(0, endTime);
     } catch (e) {
@@ -81,51 +531,209 @@ export const fadeOutAllSounds = (duration: number) => {
     }
   });
 
-  // Schedule the hard stop after the fade completes
+  notifyVoiceListeners();
+
+  // Schedule the hard stop after the fade completes. Only the faded voices are
+  // stopped: a solo press no longer clears everything, so new voices may be running.
+  const fadingEntries = Array.from(activeSources);
   fadeTimeout = window.setTimeout(() => {
-    stopAllSounds();
+    fadeTimeout = null;
+    fadingEntries.forEach(stopEntry);
   }, duration * 1000);
 };
 
-export const playAudioBlob = async (blob: Blob, volume: number = 1.0): Promise<void> => {
+// Cache key for blobs played outside a pad (e.g. previews)
+const UNASSIGNED_PAD_ID = 'preview';
+
+// Decoded audio for display (e.g. the waveform editor); shares the playback cache
+export const decodeAudioBlob = async (blob: Blob, padId: string = UNASSIGNED_PAD_ID): Promise<AudioBuffer> => {
+  return getDecodedBuffer(getAudioContext(), blob, padId);
+};
+
+// Decode a pad's audio ahead of time so its first press starts instantly
+export const preloadAudioBlob = async (blob: Blob, padId: string): Promise<void> => {
+  try {
+    await getDecodedBuffer(getAudioContext(), blob, padId);
+  } catch (error) {
+    console.error("Error decoding audio:", error);
+  }
+};
+
+// Decodes (and caches) a pad's audio and measures its loudness
+export const measureAudioBlob = async (blob: Blob, padId: string): Promise<LoudnessAnalysis | undefined> => {
+  try {
+    return analyzeLoudness(await getDecodedBuffer(getAudioContext(), blob, padId));
+  } catch (error) {
+    console.error("Error analysing audio:", error);
+    return undefined;
+  }
+};
+
+// Playback options stored on a pad
+export const getPadPlaybackOptions = (pad: SoundPadData): PlaybackOptions => ({
+  padId: pad.id,
+  policy: pad.playbackPolicy,
+  chokeGroup: pad.chokeGroup,
+  isBed: pad.isBed,
+  loop: pad.triggerMode === TriggerMode.LOOP,
+  loopStart: pad.loopStart,
+  loopEnd: pad.loopEnd,
+  startTime: pad.startTime,
+  endTime: pad.endTime,
+  fadeIn: pad.fadeIn,
+  fadeOut: pad.fadeOut,
+  fadeCurve: pad.fadeCurve,
+  normalizationGain: getNormalizationGain(pad.loudness),
+  playbackRate: pad.playbackRate,
+  pitch: pad.pitch,
+  pan: pad.pan,
+  eqLow: pad.eqLow,
+  eqMid: pad.eqMid,
+  eqHigh: pad.eqHigh,
+  reverbSend: pad.reverbSend,
+});
+
+export const playAudioBlob = async (blob: Blob, volume: number = 1.0, options: PlaybackOptions = {}): Promise<VoiceHandle | null> => {
+  const {
+    padId,
+    policy = PlaybackPolicy.SOLO,
+    chokeGroup,
+    isBed = false,
+    loop = false,
+    loopStart,
+    loopEnd,
+    startTime,
+    endTime,
+    fadeCurve = FadeCurve.LINEAR,
+    liveEffects = false,
+  } = options;
+
   try {
     const ctx = getAudioContext();
     if (ctx.state === 'suspended') {
       await ctx.resume();
     }
 
-    const arrayBuffer = await blob.arrayBuffer();
-    const audioBuffer = await ctx.decodeAudioData(arrayBuffer);
+    const audioBuffer = await getDecodedBuffer(ctx, blob, padId ?? UNASSIGNED_PAD_ID);
 
-    // Enforce Solo Mode: Stop all other sounds before starting this one
-    stopAllSounds();
+    // Apply the pad's playback policy before starting this one
+    if (policy === PlaybackPolicy.SOLO) {
+      stopRole(isBed);
+    } else if (policy === PlaybackPolicy.CHOKE && chokeGroup !== undefined) {
+      stopChokeGroup(chokeGroup);
+    }
+
+    // Trim points, clamped to the clip
+    const offset = Math.min(Math.max(startTime ?? 0, 0), audioBuffer.duration);
+    const end = Math.min(endTime ?? audioBuffer.duration, audioBuffer.duration);
+    const playDuration = Math.max(end - offset, 0);
+    // Fades run in real time, which a changed playback rate stretches or squeezes
+    const playbackRate = getEffectivePlaybackRate(options);
+    const realDuration = playDuration / playbackRate;
+
+    // Fades can't be longer than the clip itself; shrink them proportionally if they are
+    let fadeIn = Math.max(options.fadeIn ?? 0, 0);
+    let fadeOut = Math.max(options.fadeOut ?? 0, 0);
+    if (!loop && fadeIn + fadeOut > realDuration) {
+      const scale = fadeIn + fadeOut > 0 ? realDuration / (fadeIn + fadeOut) : 0;
+      fadeIn *= scale;
+      fadeOut *= scale;
+    }
 
     const source = ctx.createBufferSource();
     source.buffer = audioBuffer;
+    source.playbackRate.value = playbackRate;
+    if (loop) {
+      // Loops stay inside the trimmed region unless explicit loop points are set. Points
+      // saved before they were checked are clamped to it; an empty region loops the trim.
+      const from = Math.min(Math.max(loopStart ?? offset, offset), end);
+      const to = Math.min(Math.max(loopEnd ?? end, offset), end);
+      source.loop = true;
+      source.loopStart = to > from ? from : offset;
+      source.loopEnd = to > from ? to : end;
+    }
 
+    // The pad's volume is a trim on top of its loudness correction
+    const level = volume * (options.normalizationGain ?? 1);
     const padGainNode = ctx.createGain();
-    padGainNode.gain.value = volume;
+    const now = ctx.currentTime;
+    if (fadeIn > 0) {
+      padGainNode.gain.value = 0;
+      padGainNode.gain.setValueCurveAtTime(buildFadeCurve(fadeCurve, 0, level), now, fadeIn);
+    } else {
+      padGainNode.gain.value = level;
+    }
+    // Looping voices have no natural end; they only fade out when stopped
+    if (!loop && fadeOut > 0) {
+      // Never start before the fade-in curve has finished; overlapping curves throw
+      const fadeOutStart = Math.max(now + fadeIn, now + realDuration - fadeOut);
+      const fadeOutLength = now + realDuration - fadeOutStart;
+      if (fadeOutLength > 0) {
+        padGainNode.gain.setValueCurveAtTime(buildFadeCurve(fadeCurve, level, 0), fadeOutStart, fadeOutLength);
+      }
+    }
 
-    // Signal chain: Source -> Pad Gain -> Master Gain -> Destination
+    // Signal chain: Source -> Pad Gain -> [Effects] -> Master Gain -> Destination
     source.connect(padGainNode);
-    
-    if (masterGainNode) {
-      padGainNode.connect(masterGainNode);
+    const effects = buildEffectsChain(ctx, padGainNode, options, liveEffects);
+
+    if (isBed) {
+      effects.output.connect(getBedBus(ctx));
+    } else if (masterGainNode) {
+      effects.output.connect(masterGainNode);
     } else {
       // Fallback if master gain init failed
-      padGainNode.connect(ctx.destination);
+      effects.output.connect(ctx.destination);
     }
 
-    const entry: AudioSourceEntry = { source, gain: padGainNode };
+    const entry: AudioSourceEntry = {
+      id: nextVoiceId++,
+      padId,
+      source,
+      gain: padGainNode,
+      effects: effects.nodes,
+      isBed,
+      chokeGroup: policy === PlaybackPolicy.CHOKE ? chokeGroup : undefined,
+      fadeOut,
+      fadeCurve,
+      resolveEnded: () => {},
+      startedAt: now,
+      duration: loop ? source.loopEnd - source.loopStart : playDuration,
+      leadIn: loop ? source.loopStart - offset : 0,
+      playbackRate,
+      played: 0,
+      playedAt: now,
+    };
+    const ended = new Promise<boolean>(resolve => {
+      entry.resolveEnded = resolve;
+    });
 
     source.onended = () => {
-      activeSources.delete(entry);
+      // Anything stopped or faded early has already been marked as releasing
+      removeEntry(entry, !entry.isReleasing);
     };
 
     activeSources.add(entry);
-    source.start(0);
+    updateDucking();
+    if (loop) {
+      // A duration would cut the loop short
+      source.start(now, offset);
+    } else {
+      source.start(now, offset, playDuration);
+    }
+    notifyVoiceListeners();
+
+    return {
+      id: entry.id,
+      padId,
+      isPlaying: () => activeSources.has(entry),
+      stop: (fadeOut) => releaseEntry(entry, fadeOut),
+      ended,
+      updateEffects: (changes) => updateEffectNodes(entry, changes),
+    };
   } catch (error) {
     console.error("Error playing audio:", error);
+    return null;
   }
 };
 
@@ -138,4 +746,87 @@ export const base64ToBlob = (base64: string, mimeType: string = 'audio/mp3'): Bl
   }
   const byteArray = new Uint8Array(byteNumbers);
   return new Blob([byteArray], { type: mimeType });
-};
\ No newline at end of file
+};
+
+// Utility to convert a Blob to base64 (inverse of base64ToBlob)
+export const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Chunked to stay under the argument limit of String.fromCharCode
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+// True if the browser can decode the blob as audio. Does not touch the buffer cache.
+export const isDecodableAudio = async (blob: Blob): Promise<boolean> => {
+  try {
+    await getAudioContext().decodeAudioData(await blob.arrayBuffer());
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+// Helper to create a WAV header for raw PCM data
+export function createWavFile(samples: Uint8Array, sampleRate: number, numChannels: number, bitDepth: number): Blob {
+  const buffer = new ArrayBuffer(44 + samples.length);
+  const view = new DataView(buffer);
+
+  // RIFF identifier
+  writeString(view, 0, 'RIFF');
+  // RIFF chunk length
+  view.setUint32(4, 36 + samples.length, true);
+  // RIFF type
+  writeString(view, 8, 'WAVE');
+  // format chunk identifier
+  writeString(view, 12, 'fmt ');
+  // format chunk length
+  view.setUint32(16, 16, true);
+  // sample format (raw)
+  view.setUint16(20, 1, true);
+  // channel count
+  view.setUint16(22, numChannels, true);
+  // sample rate
+  view.setUint32(24, sampleRate, true);
+  // byte rate (sample rate * block align)
+  view.setUint32(28, sampleRate * numChannels * (bitDepth / 8), true);
+  // block align (channel count * bytes per sample)
+  view.setUint16(32, numChannels * (bitDepth / 8), true);
+  // bits per sample
+  view.setUint16(34, bitDepth, true);
+  // data chunk identifier
+  writeString(view, 36, 'data');
+  // data chunk length
+  view.setUint32(40, samples.length, true);
+
+  // write the PCM samples
+  const dataView = new Uint8Array(buffer, 44);
+  dataView.set(samples);
+
+  return new Blob([buffer], { type: 'audio/wav' });
+}
+
+function writeString(view: DataView, offset: number, string: string) {
+  for (let i = 0; i < string.length; i++) {
+    view.setUint8(offset + i, string.charCodeAt(i));
+  }
+}
+
+// Renders decoded audio as a 16-bit PCM WAV file
+export const encodeWav = (buffer: AudioBuffer): Blob => {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  const samples = new Uint8Array(buffer.length * channels.length * 2);
+  const view = new DataView(samples.buffer);
+  let offset = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    for (const data of channels) {
+      const sample = Math.max(-1, Math.min(1, data[i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += 2;
+    }
+  }
+  return createWavFile(samples, buffer.sampleRate, channels.length, 16);
+};
@@ -0,0 +1,78 @@
+import { SoundPadData, PadBank, PadColor } from '../types';
+
+// The original single-grid board becomes bank "A". Its pads keep their
+// legacy `pad-${i}` ids so boards saved before banks existed still load.
+export const DEFAULT_BANK: PadBank = { id: 'bank-a', name: 'A', order: 0 };
+
+export const makePadId = (bankId: string, index: number): string => {
+  return bankId === DEFAULT_BANK.id ? `pad-${index}` : `${bankId}-pad-${index}`;
+};
+
+// Slot position encoded in the pad id
+export const getPadIndex = (id: string): number => {
+  return parseInt(id.slice(id.lastIndexOf('pad-') + 4), 10);
+};
+
+export const createEmptyPad = (id: string, bankId: string): SoundPadData => ({
+  id,
+  bankId,
+  name: 'Empty',
+  color: PadColor.SLATE,
+  volume: 1.0,
+});
+
+// A pad's content placed in another slot
+export const placePad = (pad: SoundPadData, id: string, bankId: string): SoundPadData => ({ ...pad, id, bankId });
+
+// A copy for another slot. Key and controller bindings stay with the original so the two don't clash.
+export const copyPadTo = (pad: SoundPadData, id: string, bankId: string): SoundPadData => {
+  const { shortcut, isGlobal, midiBinding, midiVelocity, gamepadBinding, ...content } = pad;
+  return { ...content, id, bankId };
+};
+
+export const createBank = (existing: PadBank[]): PadBank => {
+  const order = existing.reduce((max, b) => Math.max(max, b.order + 1), 0);
+  return {
+    // Time plus a random suffix so banks created in the same tick stay distinct
+    id: `bank-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name: getBankLetter(order),
+    order,
+  };
+};
+
+// A, B, ... Z, AA, AB, ...
+const getBankLetter = (index: number): string => {
+  let label = '';
+  let n = index;
+  do {
+    label = String.fromCharCode(65 + (n % 26)) + label;
+    n = Math.floor(n / 26) - 1;
+  } while (n >= 0);
+  return label;
+};
+
+export const sortBanks = (banks: PadBank[]): PadBank[] => {
+  return [...banks].sort((a, b) => a.order - b.order);
+};
+
+// Builds the full pad list for every bank, filling unused slots with empty pads.
+// Loaded pads whose slot falls outside the grid are kept after the grid slots as overflow.
+export const buildBoardPads = (banks: PadBank[], storedPads: SoundPadData[], padCount: number): SoundPadData[] => {
+  return banks.flatMap(bank => {
+    // Pads saved before banks existed have no bankId
+    const bankPads = storedPads
+      .filter(sp => (sp.bankId || DEFAULT_BANK.id) === bank.id)
+      .map(sp => ({ ...sp, bankId: bank.id }));
+
+    const slots = Array.from({ length: padCount }, (_, i) => {
+      const id = makePadId(bank.id, i);
+      return bankPads.find(sp => sp.id === id) || createEmptyPad(id, bank.id);
+    });
+
+    const overflow = bankPads
+      .filter(sp => sp.audioBlob && getPadIndex(sp.id) >= padCount)
+      .sort((a, b) => getPadIndex(a.id) - getPadIndex(b.id));
+
+    return [...slots, ...overflow];
+  });
+};
@@ -0,0 +1,231 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BoardSettings, CueList, DEFAULT_BOARD_SETTINGS, MidiBinding, MidiMessageType, PadBank, PadColor, SoundPadData } from '../types';
+import {
+  BOARD_ARCHIVE_FORMAT,
+  BOARD_ARCHIVE_VERSION,
+  BoardArchive,
+  exportBoard,
+  ImportMode,
+  parseBoardArchive,
+  planBoardImport,
+} from './boardArchive';
+
+// No AudioContext here: anything that isn't the placeholder "not audio" decodes
+vi.mock('./audio', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./audio')>()),
+  isDecodableAudio: async (blob: Blob) => (await blob.text()) !== 'not audio',
+}));
+
+const BANK_A: PadBank = { id: 'bank-a', name: 'A', order: 0 };
+const BANK_B: PadBank = { id: 'bank-b', name: 'B', order: 1 };
+const PAD_COUNT = 4;
+
+const audio = (content = 'audio') => ({ mimeType: 'audio/wav', data: btoa(content) });
+
+const archivedPad = (id: string, bankId: string, fields: Record<string, unknown> = {}) => ({
+  id,
+  bankId,
+  name: `Pad ${id}`,
+  color: PadColor.RED,
+  volume: 1,
+  audio: audio(),
+  ...fields,
+});
+
+const boardPad = (id: string, bankId: string, fields: Partial<SoundPadData> = {}): SoundPadData => ({
+  id,
+  bankId,
+  name: `Board ${id}`,
+  color: PadColor.BLUE,
+  volume: 1,
+  audioBlob: new Blob(['audio']),
+  ...fields,
+});
+
+const archive = (fields: Partial<BoardArchive> = {}): BoardArchive => ({
+  format: BOARD_ARCHIVE_FORMAT,
+  version: BOARD_ARCHIVE_VERSION,
+  exportedAt: '2026-01-01T00:00:00.000Z',
+  settings: DEFAULT_BOARD_SETTINGS,
+  banks: [BANK_A],
+  pads: [],
+  cueLists: [],
+  ...fields,
+});
+
+const file = (contents: unknown) => new Blob([typeof contents === 'string' ? contents : JSON.stringify(contents)]);
+
+describe('parseBoardArchive', () => {
+  it('accepts exports of this and earlier versions', async () => {
+    expect((await parseBoardArchive(file(archive()))).version).toBe(BOARD_ARCHIVE_VERSION);
+    const { cueLists, ...v2 } = archive({ version: 2 });
+    expect((await parseBoardArchive(file(v2))).version).toBe(2);
+  });
+
+  it('rejects files that are not board exports', async () => {
+    await expect(parseBoardArchive(file('{not json'))).rejects.toThrow('invalid JSON');
+    await expect(parseBoardArchive(file({ format: 'something-else', version: 1 }))).rejects.toThrow("isn't a board export");
+    await expect(parseBoardArchive(file('null'))).rejects.toThrow("isn't a board export");
+  });
+
+  it('rejects versions it cannot read', async () => {
+    await expect(parseBoardArchive(file(archive({ version: 0 })))).rejects.toThrow('invalid version');
+    await expect(parseBoardArchive(file(archive({ version: 1.5 })))).rejects.toThrow('invalid version');
+    await expect(parseBoardArchive(file(archive({ version: BOARD_ARCHIVE_VERSION + 1 })))).rejects.toThrow('newer version');
+  });
+
+  it('rejects exports missing their contents', async () => {
+    const { pads, ...noPads } = archive();
+    await expect(parseBoardArchive(file(noPads))).rejects.toThrow('missing its banks or pads');
+    const { cueLists, ...noCueLists } = archive();
+    await expect(parseBoardArchive(file(noCueLists))).rejects.toThrow('missing its cue lists');
+  });
+});
+
+describe('exportBoard', () => {
+  it('round-trips pads with their audio, skipping empty slots', async () => {
+    const pads = [boardPad('pad-0', 'bank-a', { shortcut: 'KeyA' }), { ...boardPad('pad-1', 'bank-a'), audioBlob: undefined }];
+    const cueLists: CueList[] = [{ id: 'cues-1', name: 'Show', cues: [{ id: 'cue-1', padId: 'pad-0' }] }];
+    const exported = await parseBoardArchive(await exportBoard([BANK_A], pads, DEFAULT_BOARD_SETTINGS, cueLists));
+    const plan = await planBoardImport(exported, ImportMode.REPLACE, [], [], [], PAD_COUNT);
+
+    expect(plan.pads.map(p => p.id)).toEqual(['pad-0']);
+    expect(plan.pads[0].shortcut).toBe('KeyA');
+    expect(await plan.pads[0].audioBlob!.text()).toBe('audio');
+    expect(plan.cueLists).toEqual(cueLists);
+  });
+});
+
+describe('planBoardImport', () => {
+  it('reports pads it cannot restore', async () => {
+    const plan = await planBoardImport(archive({
+      pads: [
+        archivedPad('pad-0', 'bank-a'),
+        archivedPad('pad-1', 'bank-a', { audio: undefined }),
+        archivedPad('pad-2', 'bank-a', { audio: audio('not audio') }),
+        archivedPad('nonsense', 'bank-a'),
+        archivedPad('pad-3', 'bank-z'),
+        'not a pad',
+      ],
+    }), ImportMode.REPLACE, [], [], [], PAD_COUNT);
+
+    expect(plan.pads.map(p => p.id)).toEqual(['pad-0']);
+    expect(plan.failed).toEqual([
+      { name: 'Pad pad-1', reason: 'Missing audio' },
+      { name: 'Pad pad-2', reason: 'Audio could not be decoded' },
+      { name: 'Pad nonsense', reason: 'Missing or invalid pad id' },
+      { name: 'Unnamed pad', reason: 'Missing or invalid pad id' },
+      { name: 'Pad pad-3', reason: 'Its bank is missing from the export' },
+    ]);
+  });
+
+  it('never replaces the board from an export without a valid bank', async () => {
+    await expect(planBoardImport(archive({ banks: [{ id: 'bank-a' }] }), ImportMode.REPLACE, [BANK_A], [], [], PAD_COUNT))
+      .rejects.toThrow('no valid banks');
+  });
+
+  it('drops shortcuts the board reserves, but keeps ones reserved only in context', async () => {
+    const plan = await planBoardImport(archive({
+      pads: [
+        archivedPad('pad-0', 'bank-a', { shortcut: 'Escape' }),
+        archivedPad('pad-1', 'bank-a', { shortcut: 'Space' }),
+      ],
+    }), ImportMode.REPLACE, [], [], [], PAD_COUNT);
+
+    expect(plan.pads.map(p => p.shortcut)).toEqual([undefined, 'Space']);
+    expect(plan.unbound).toHaveLength(1);
+    expect(plan.unbound[0].name).toBe('Pad pad-0');
+  });
+
+  it('converts shortcuts from v1 exports', async () => {
+    const plan = await planBoardImport(archive({
+      version: 1,
+      pads: [archivedPad('pad-0', 'bank-a', { shortcut: 'Shift+!' })],
+    }), ImportMode.REPLACE, [], [], [], PAD_COUNT);
+
+    expect(plan.pads[0].shortcut).toBe('Shift+Digit1');
+  });
+
+  it('replaces settings and cue lists, keeping only cues whose pads came through', async () => {
+    const plan = await planBoardImport(archive({
+      // Exported before most settings existed
+      settings: { rows: 2 } as BoardSettings,
+      pads: [archivedPad('pad-0', 'bank-a'), archivedPad('pad-1', 'bank-a', { audio: undefined })],
+      cueLists: [
+        { id: 'cues-1', name: 'Show', cues: [{ id: 'cue-1', padId: 'pad-0' }, { id: 'cue-2', padId: 'pad-1' }, { bad: true }] },
+        { name: 'Broken' },
+      ],
+    }), ImportMode.REPLACE, [], [], [], PAD_COUNT);
+
+    expect(plan.settings).toEqual({ ...DEFAULT_BOARD_SETTINGS, rows: 2 });
+    expect(plan.cueLists).toEqual([{ id: 'cues-1', name: 'Show', cues: [{ id: 'cue-1', padId: 'pad-0' }] }]);
+  });
+
+  it('leaves the board its cue lists when the export predates them', async () => {
+    const { cueLists, ...v2 } = archive({ version: 2, pads: [archivedPad('pad-0', 'bank-a')] });
+    const plan = await planBoardImport(v2, ImportMode.REPLACE, [], [], [], PAD_COUNT);
+
+    expect(plan.cueLists).toBeNull();
+  });
+
+  describe('merging', () => {
+    it('fills empty slots and maps banks by name', async () => {
+      const current = [boardPad('pad-0', 'bank-a')];
+      const plan = await planBoardImport(archive({
+        banks: [{ id: 'bank-x', name: 'A', order: 0 }, BANK_B],
+        pads: [archivedPad('bank-x-pad-0', 'bank-x'), archivedPad('bank-b-pad-2', 'bank-b')],
+      }), ImportMode.MERGE, [BANK_A], current, [], PAD_COUNT);
+
+      expect(plan.settings).toBeNull();
+      // Bank A exists already; B is new and gets a fresh id
+      expect(plan.banks.map(b => b.name)).toEqual(['B']);
+      const newBankId = plan.banks[0].id;
+      expect(plan.pads.map(p => [p.id, p.bankId])).toEqual([
+        ['pad-1', 'bank-a'],
+        [`${newBankId}-pad-2`, newBankId],
+      ]);
+    });
+
+    it('reports pads that find no empty slot', async () => {
+      const current = Array.from({ length: PAD_COUNT }, (_, i) => boardPad(`pad-${i}`, 'bank-a'));
+      const plan = await planBoardImport(archive({ pads: [archivedPad('pad-0', 'bank-a')] }), ImportMode.MERGE, [BANK_A], current, [], PAD_COUNT);
+
+      expect(plan.pads).toEqual([]);
+      expect(plan.failed).toEqual([{ name: 'Pad pad-0', reason: 'No empty slot left on bank A' }]);
+    });
+
+    it('imports pads without bindings the board already uses', async () => {
+      const midi: MidiBinding = { type: MidiMessageType.NOTE, channel: 1, number: 60 };
+      const current = [boardPad('pad-0', 'bank-a', { shortcut: 'KeyA', midiBinding: midi })];
+      const plan = await planBoardImport(archive({
+        pads: [
+          archivedPad('pad-1', 'bank-a', { shortcut: 'KeyA', midiBinding: midi }),
+          // Both merged pads want the same key; the second loses it
+          archivedPad('pad-2', 'bank-a', { shortcut: 'KeyB' }),
+          archivedPad('pad-3', 'bank-a', { shortcut: 'KeyB' }),
+        ],
+      }), ImportMode.MERGE, [BANK_A], current, [], PAD_COUNT);
+
+      expect(plan.pads.map(p => [p.id, p.shortcut, p.midiBinding])).toEqual([
+        ['pad-1', undefined, undefined],
+        ['pad-2', 'KeyB', undefined],
+        ['pad-3', undefined, undefined],
+      ]);
+      expect(plan.unbound.map(note => note.name)).toEqual(['Pad pad-1', 'Pad pad-1', 'Pad pad-3']);
+    });
+
+    it('adds cue lists alongside the board\'s own, pointed at the merged pads', async () => {
+      const currentLists: CueList[] = [{ id: 'cues-1', name: 'Show', cues: [] }];
+      const plan = await planBoardImport(archive({
+        pads: [archivedPad('pad-0', 'bank-a')],
+        cueLists: [{ id: 'cues-1', name: 'Encore', cues: [{ id: 'cue-1', padId: 'pad-0', preWait: 2 }] }],
+      }), ImportMode.MERGE, [BANK_A], [boardPad('pad-0', 'bank-a')], currentLists, PAD_COUNT);
+
+      expect(plan.cueLists).toHaveLength(1);
+      const [list] = plan.cueLists!;
+      expect(list.id).not.toBe('cues-1');
+      expect(list.name).toBe('Encore');
+      expect(list.cues).toEqual([{ id: 'cue-1', padId: 'pad-1', preWait: 2 }]);
+    });
+  });
+});
@@ -0,0 +1,313 @@
+import { SoundPadData, PadBank, BoardSettings, DEFAULT_BOARD_SETTINGS, Cue, CueList } from '../types';
+import { blobToBase64, base64ToBlob, isDecodableAudio } from './audio';
+import { createBank, createEmptyPad, getPadIndex, makePadId } from './banks';
+import { createCueList } from './cueLists';
+import { convertLegacyShortcut, findReservedShortcut, findShortcutConflicts, formatShortcutLabel } from './shortcuts';
+import { isSameMidiBinding } from './midi';
+import { isSameGamepadBinding } from './gamepad';
+
+// A whole board (settings, banks and every pad with its audio) as a single JSON file
+export const BOARD_ARCHIVE_FORMAT = 'base-jase-board';
+// v2: shortcuts are physical key codes; v1 exports hold KeyboardEvent.key combos
+// v3: cue lists are included
+export const BOARD_ARCHIVE_VERSION = 3;
+export const BOARD_ARCHIVE_EXTENSION = '.jaseboard.json';
+
+interface ArchivedAudio {
+  mimeType: string;
+  data: string; // base64
+}
+
+type ArchivedPad = Omit<SoundPadData, 'audioBlob'> & { audio: ArchivedAudio };
+
+export interface BoardArchive {
+  format: string;
+  version: number;
+  exportedAt: string;
+  settings: BoardSettings;
+  // Contents as read from the file; every entry is checked before it's used
+  banks: unknown[];
+  pads: unknown[];
+  cueLists?: unknown[]; // From v3
+}
+
+export enum ImportMode {
+  REPLACE = 'replace', // Wipe the board and load the archive
+  MERGE = 'merge', // Only fill empty slots
+}
+
+export interface FailedPad {
+  name: string;
+  reason: string;
+}
+
+export interface ImportPlan {
+  banks: PadBank[]; // Banks to write (all banks when replacing, new banks when merging)
+  pads: SoundPadData[]; // Pads to write
+  settings: BoardSettings | null; // Only set when replacing
+  // Cue lists to write (all lists when replacing, new lists when merging). Null when the
+  // archive predates cue lists: the board's own lists stay, minus cues for pads that are gone.
+  cueLists: CueList[] | null;
+  failed: FailedPad[];
+  unbound: FailedPad[]; // Merged pads imported without a binding another pad already uses
+}
+
+export const exportBoard = async (banks: PadBank[], pads: SoundPadData[], settings: BoardSettings, cueLists: CueList[]): Promise<Blob> => {
+  const archivedPads: ArchivedPad[] = [];
+  for (const pad of pads) {
+    if (!pad.audioBlob) continue;
+    const { audioBlob, ...fields } = pad;
+    archivedPads.push({
+      ...fields,
+      audio: {
+        mimeType: audioBlob.type || 'audio/mpeg',
+        data: await blobToBase64(audioBlob),
+      },
+    });
+  }
+
+  const archive: BoardArchive = {
+    format: BOARD_ARCHIVE_FORMAT,
+    version: BOARD_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    settings,
+    banks,
+    pads: archivedPads,
+    cueLists,
+  };
+  return new Blob([JSON.stringify(archive)], { type: 'application/json' });
+};
+
+// Reads and validates the manifest. Throws with a user-facing message if the
+// file isn't a board archive this version of the app understands.
+export const parseBoardArchive = async (file: Blob): Promise<BoardArchive> => {
+  let archive: any;
+  try {
+    archive = JSON.parse(await file.text());
+  } catch (e) {
+    throw new Error("This file isn't a board export (invalid JSON).");
+  }
+
+  if (!archive || archive.format !== BOARD_ARCHIVE_FORMAT) {
+    throw new Error("This file isn't a board export.");
+  }
+  if (!Number.isInteger(archive.version) || archive.version < 1) {
+    throw new Error("The board export has an invalid version.");
+  }
+  if (archive.version > BOARD_ARCHIVE_VERSION) {
+    throw new Error(`The board was exported by a newer version of the app (format v${archive.version}). Please update and try again.`);
+  }
+  if (!Array.isArray(archive.banks) || !Array.isArray(archive.pads)) {
+    throw new Error("The board export is missing its banks or pads.");
+  }
+  if (archive.version >= 3 && !Array.isArray(archive.cueLists)) {
+    throw new Error("The board export is missing its cue lists.");
+  }
+  return archive as BoardArchive;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isValidBank = (bank: unknown): bank is PadBank =>
+  isRecord(bank) && typeof bank.id === 'string' && typeof bank.name === 'string' && typeof bank.order === 'number';
+
+const isValidCue = (cue: unknown): cue is Cue =>
+  isRecord(cue) && typeof cue.id === 'string' && typeof cue.padId === 'string';
+
+const isValidCueList = (list: unknown): list is { id: string; name: string; cues: unknown[] } =>
+  isRecord(list) && typeof list.id === 'string' && typeof list.name === 'string' && Array.isArray(list.cues);
+
+// What to call a pad that failed, for the import summary
+const describeArchivedPad = (archived: unknown): string => {
+  if (isRecord(archived) && typeof archived.name === 'string' && archived.name) return archived.name;
+  if (isRecord(archived) && typeof archived.id === 'string') return archived.id;
+  return 'Unnamed pad';
+};
+
+// The archive's cue lists with each cue pointed at its imported pad. Cues for pads
+// that weren't imported are dropped; a list left empty is still kept.
+const restoreCueLists = (archive: BoardArchive, padIds: Map<string, string>): CueList[] => {
+  return (archive.cueLists || [])
+    .filter(isValidCueList)
+    .map(list => ({
+      id: list.id,
+      name: list.name,
+      cues: list.cues.filter(isValidCue)
+        .filter(cue => padIds.has(cue.padId))
+        .map(cue => ({ ...cue, padId: padIds.get(cue.padId)! })),
+    }));
+};
+
+// Restores a single pad's fields and audio. Throws with the reason it can't be imported.
+const restorePad = async (archived: unknown, version: number): Promise<SoundPadData> => {
+  if (!isRecord(archived) || typeof archived.id !== 'string' || isNaN(getPadIndex(archived.id))) {
+    throw new Error('Missing or invalid pad id');
+  }
+  if (typeof archived.name !== 'string' || typeof archived.volume !== 'number') {
+    throw new Error('Missing name or volume');
+  }
+  const { audio, ...fields } = archived;
+  if (!isRecord(audio) || typeof audio.data !== 'string') {
+    throw new Error('Missing audio');
+  }
+
+  let audioBlob: Blob;
+  try {
+    audioBlob = base64ToBlob(audio.data, typeof audio.mimeType === 'string' ? audio.mimeType : '');
+  } catch (e) {
+    throw new Error('Corrupt audio data');
+  }
+  if (!(await isDecodableAudio(audioBlob))) {
+    throw new Error('Audio could not be decoded');
+  }
+
+  if (version < 2 && typeof fields.shortcut === 'string') {
+    fields.shortcut = convertLegacyShortcut(fields.shortcut);
+  }
+  return { ...fields, audioBlob } as unknown as SoundPadData;
+};
+
+// Clears shortcuts that the board reserves (e.g. Escape), as the editor won't accept them.
+// Returns a note for each shortcut dropped.
+const dropReservedShortcuts = (pads: SoundPadData[]): FailedPad[] => {
+  const notes: FailedPad[] = [];
+  pads.forEach(pad => {
+    const reserved = pad.shortcut ? findReservedShortcut(pad.shortcut) : undefined;
+    // Keys reserved only some of the time (Space for GO) are still allowed on pads
+    if (!reserved || reserved.context) return;
+    notes.push({ name: pad.name, reason: `Shortcut ${formatShortcutLabel(pad.shortcut!)} is reserved for ${reserved.label}` });
+    pad.shortcut = undefined;
+  });
+  return notes;
+};
+
+// Clears any binding on a merged pad that one of `others` already answers to, with the same
+// scope rules as the editor: bank bindings clash within their bank, global ones everywhere.
+// Returns a note for each binding dropped.
+const dropClashingBindings = (pad: SoundPadData, others: SoundPadData[]): FailedPad[] => {
+  const notes: FailedPad[] = [];
+  const inScope = others.filter(p => p.id !== pad.id && (p.bankId === pad.bankId || p.isGlobal || pad.isGlobal));
+
+  if (pad.shortcut) {
+    const [clash] = findShortcutConflicts(others, pad, pad.shortcut);
+    if (clash) {
+      notes.push({ name: pad.name, reason: `Shortcut ${formatShortcutLabel(pad.shortcut)} is already used by ${clash.name}` });
+      pad.shortcut = undefined;
+    }
+  }
+  if (pad.midiBinding) {
+    const clash = inScope.find(p => isSameMidiBinding(p.midiBinding, pad.midiBinding));
+    if (clash) {
+      notes.push({ name: pad.name, reason: `MIDI binding is already used by ${clash.name}` });
+      pad.midiBinding = undefined;
+    }
+  }
+  if (pad.gamepadBinding) {
+    const clash = inScope.find(p => isSameGamepadBinding(p.gamepadBinding, pad.gamepadBinding));
+    if (clash) {
+      notes.push({ name: pad.name, reason: `Gamepad binding is already used by ${clash.name}` });
+      pad.gamepadBinding = undefined;
+    }
+  }
+  return notes;
+};
+
+// Works out what an import would write, without touching the database
+export const planBoardImport = async (
+  archive: BoardArchive,
+  mode: ImportMode,
+  currentBanks: PadBank[],
+  currentPads: SoundPadData[],
+  currentCueLists: CueList[],
+  padCount: number
+): Promise<ImportPlan> => {
+  const failed: FailedPad[] = [];
+  const archiveBanks = archive.banks.filter(isValidBank);
+
+  const restored: SoundPadData[] = [];
+  for (const archived of archive.pads) {
+    try {
+      restored.push(await restorePad(archived, archive.version));
+    } catch (e: any) {
+      failed.push({ name: describeArchivedPad(archived), reason: e.message });
+    }
+  }
+  // Keys the app answers to itself would never reach the pad, whichever way it's imported
+  const unbound = dropReservedShortcuts(restored);
+
+  if (mode === ImportMode.REPLACE) {
+    // Never wipe the board for an export we can't place a single pad from
+    if (archiveBanks.length === 0) {
+      throw new Error("The board export has no valid banks.");
+    }
+    const banks = archiveBanks;
+    const bankIds = new Set(banks.map(b => b.id));
+    const pads = restored.filter(pad => {
+      if (bankIds.has(pad.bankId)) return true;
+      failed.push({ name: pad.name, reason: 'Its bank is missing from the export' });
+      return false;
+    });
+    return {
+      banks,
+      pads,
+      settings: { ...DEFAULT_BOARD_SETTINGS, ...archive.settings },
+      cueLists: archive.version >= 3 ? restoreCueLists(archive, new Map(pads.map(p => [p.id, p.id]))) : null,
+      failed,
+      unbound,
+    };
+  }
+
+  // Merge: archive banks map onto existing banks by name, otherwise they're added
+  const newBanks: PadBank[] = [];
+  const bankMap = new Map<string, PadBank>();
+  archiveBanks.forEach(archivedBank => {
+    const existing = currentBanks.find(b => b.name === archivedBank.name) || newBanks.find(b => b.name === archivedBank.name);
+    if (existing) {
+      bankMap.set(archivedBank.id, existing);
+    } else {
+      const bank = { ...createBank([...currentBanks, ...newBanks]), name: archivedBank.name };
+      newBanks.push(bank);
+      bankMap.set(archivedBank.id, bank);
+    }
+  });
+
+  const occupied = new Set(currentPads.filter(p => p.audioBlob).map(p => p.id));
+  const boundPads = currentPads.filter(p => p.audioBlob);
+  const pads: SoundPadData[] = [];
+  // Archived pad id -> the slot it was merged into
+  const padIds = new Map<string, string>();
+
+  restored.forEach(pad => {
+    const bank = bankMap.get(pad.bankId);
+    if (!bank) {
+      failed.push({ name: pad.name, reason: 'Its bank is missing from the export' });
+      return;
+    }
+
+    // Same slot if it's free, otherwise the first empty slot on the bank
+    let id = makePadId(bank.id, getPadIndex(pad.id));
+    if (getPadIndex(pad.id) >= padCount || occupied.has(id)) {
+      const freeIndex = Array.from({ length: padCount }, (_, i) => i).find(i => !occupied.has(makePadId(bank.id, i)));
+      if (freeIndex === undefined) {
+        failed.push({ name: pad.name, reason: `No empty slot left on bank ${bank.name}` });
+        return;
+      }
+      id = makePadId(bank.id, freeIndex);
+    }
+
+    occupied.add(id);
+    const placed = { ...createEmptyPad(id, bank.id), ...pad, id, bankId: bank.id };
+    unbound.push(...dropClashingBindings(placed, [...boundPads, ...pads]));
+    pads.push(placed);
+    padIds.set(pad.id, id);
+  });
+
+  // Merged lists are added alongside the board's own, never over one with the same id
+  const cueLists: CueList[] = [];
+  restoreCueLists(archive, padIds).forEach(list => {
+    cueLists.push({ ...createCueList([...currentCueLists, ...cueLists]), name: list.name, cues: list.cues });
+  });
+
+  return { banks: newBanks, pads, settings: null, cueLists, failed, unbound };
+};
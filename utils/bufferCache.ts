@@ -0,0 +1,151 @@
+// Decoded AudioBuffer cache so pads don't pay for blob.arrayBuffer() + decodeAudioData
+// on every press. Entries are keyed by pad id and blob identity, and evicted
+// least-recently-used first once the total decoded duration exceeds the budget.
+import { DEFAULT_BOARD_SETTINGS } from '../types';
+
+interface CacheEntry {
+  padId: string;
+  buffer: AudioBuffer;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  entries: number;
+  cachedSeconds: number;
+  budgetSeconds: number;
+  lastDecodeMs: number;
+  averageDecodeMs: number;
+}
+
+type CacheStatsListener = (stats: CacheStats) => void;
+
+// Map iteration order doubles as the LRU order: oldest first
+const entries: Map<string, CacheEntry> = new Map();
+// In-flight decodes, so mashing a pad while it decodes doesn't start more decodes
+const pending: Map<string, Promise<AudioBuffer>> = new Map();
+// Blobs have no identity of their own; number them as we see them
+const blobIds: WeakMap<Blob, number> = new WeakMap();
+const statsListeners: Set<CacheStatsListener> = new Set();
+
+let nextBlobId = 1;
+let budgetSeconds = DEFAULT_BOARD_SETTINGS.cacheBudgetSeconds;
+let hits = 0;
+let misses = 0;
+let decodeCount = 0;
+let totalDecodeMs = 0;
+let lastDecodeMs = 0;
+
+const getBlobId = (blob: Blob): number => {
+  let id = blobIds.get(blob);
+  if (id === undefined) {
+    id = nextBlobId++;
+    blobIds.set(blob, id);
+  }
+  return id;
+};
+
+const getCachedSeconds = (): number => {
+  let total = 0;
+  entries.forEach(({ buffer }) => { total += buffer.duration; });
+  return total;
+};
+
+export const getCacheStats = (): CacheStats => ({
+  hits,
+  misses,
+  entries: entries.size,
+  cachedSeconds: getCachedSeconds(),
+  budgetSeconds,
+  lastDecodeMs,
+  averageDecodeMs: decodeCount > 0 ? totalDecodeMs / decodeCount : 0,
+});
+
+const notifyStatsListeners = () => {
+  const stats = getCacheStats();
+  statsListeners.forEach(listener => listener(stats));
+};
+
+export const subscribeToCacheStats = (listener: CacheStatsListener): (() => void) => {
+  statsListeners.add(listener);
+  listener(getCacheStats());
+  return () => {
+    statsListeners.delete(listener);
+  };
+};
+
+// Evict least-recently-used entries until we're within budget. The newest entry
+// is always kept, even if it alone is over budget, so it can still be played.
+const enforceBudget = () => {
+  let total = getCachedSeconds();
+  for (const [key, { buffer }] of entries) {
+    if (total <= budgetSeconds || entries.size <= 1) break;
+    entries.delete(key);
+    total -= buffer.duration;
+  }
+};
+
+export const setCacheBudget = (seconds: number) => {
+  budgetSeconds = Math.max(0, seconds);
+  enforceBudget();
+  notifyStatsListeners();
+};
+
+export const getDecodedBuffer = async (ctx: BaseAudioContext, blob: Blob, padId: string): Promise<AudioBuffer> => {
+  const key = `${padId}:${getBlobId(blob)}`;
+
+  const cached = entries.get(key);
+  if (cached) {
+    // Move to the most-recently-used end
+    entries.delete(key);
+    entries.set(key, cached);
+    hits++;
+    notifyStatsListeners();
+    return cached.buffer;
+  }
+
+  const inFlight = pending.get(key);
+  if (inFlight) {
+    hits++;
+    notifyStatsListeners();
+    return inFlight;
+  }
+
+  misses++;
+  const decode = (async () => {
+    const started = performance.now();
+    const arrayBuffer = await blob.arrayBuffer();
+    const buffer = await ctx.decodeAudioData(arrayBuffer);
+
+    lastDecodeMs = performance.now() - started;
+    totalDecodeMs += lastDecodeMs;
+    decodeCount++;
+
+    // The pad may have been invalidated while we were decoding
+    if (pending.get(key) === decode) {
+      entries.set(key, { padId, buffer });
+      enforceBudget();
+    }
+    return buffer;
+  })();
+
+  pending.set(key, decode);
+  try {
+    return await decode;
+  } finally {
+    if (pending.get(key) === decode) pending.delete(key);
+    notifyStatsListeners();
+  }
+};
+
+// Drop every cached buffer for a pad (its audio was replaced or cleared)
+export const invalidatePadBuffers = (padId: string) => {
+  const prefix = `${padId}:`;
+  Array.from(entries.keys()).forEach(key => {
+    if (key.startsWith(prefix)) entries.delete(key);
+  });
+  Array.from(pending.keys()).forEach(key => {
+    if (key.startsWith(prefix)) pending.delete(key);
+  });
+  notifyStatsListeners();
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { CueList } from '../types';
+import { createCue, createCueList, moveCue } from './cueLists';
+
+const list = (...padIds: string[]): CueList => ({
+  id: 'cues-1',
+  name: 'Show',
+  cues: padIds.map(padId => ({ id: `cue-${padId}`, padId })),
+});
+
+describe('cue lists', () => {
+  it('numbers new lists after the existing ones, with distinct ids', () => {
+    const first = createCueList([]);
+    const second = createCueList([first]);
+    expect(first.name).toBe('Cue List 1');
+    expect(second.name).toBe('Cue List 2');
+    expect(second.id).not.toBe(first.id);
+    expect(second.cues).toEqual([]);
+  });
+
+  it('creates cues for a pad', () => {
+    const cue = createCue('pad-3');
+    expect(cue.padId).toBe('pad-3');
+    expect(cue.id).not.toBe(createCue('pad-3').id);
+  });
+
+  it('moves a cue without changing the original list', () => {
+    const original = list('pad-0', 'pad-1', 'pad-2');
+    const moved = moveCue(original, 0, 2);
+    expect(moved.cues.map(c => c.padId)).toEqual(['pad-1', 'pad-2', 'pad-0']);
+    expect(original.cues.map(c => c.padId)).toEqual(['pad-0', 'pad-1', 'pad-2']);
+    expect(moveCue(original, 2, 1).cues.map(c => c.padId)).toEqual(['pad-0', 'pad-2', 'pad-1']);
+  });
+
+  it('ignores moves past either end', () => {
+    const original = list('pad-0', 'pad-1');
+    expect(moveCue(original, 0, -1)).toBe(original);
+    expect(moveCue(original, 1, 2)).toBe(original);
+  });
+});
@@ -0,0 +1,23 @@
+import { Cue, CueList } from '../types';
+
+const makeId = (prefix: string) => `${prefix}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+export const createCueList = (existing: CueList[]): CueList => ({
+  id: makeId('cues'),
+  name: `Cue List ${existing.length + 1}`,
+  cues: [],
+});
+
+export const createCue = (padId: string): Cue => ({
+  id: makeId('cue'),
+  padId,
+});
+
+// Returns a copy of the list with the cue at `from` moved to `to`
+export const moveCue = (list: CueList, from: number, to: number): CueList => {
+  if (to < 0 || to >= list.cues.length) return list;
+  const cues = [...list.cues];
+  const [cue] = cues.splice(from, 1);
+  cues.splice(to, 0, cue);
+  return { ...list, cues };
+};
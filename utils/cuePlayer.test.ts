@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Cue, CueList, PadColor, PlaybackPolicy, SoundPadData } from '../types';
+
+type CuePlayerModule = typeof import('./cuePlayer');
+
+interface FakeVoice {
+  padId: string;
+  stop: ReturnType<typeof vi.fn>;
+  finish: () => void; // Plays to its natural end
+}
+
+// Voices started through the mocked audio module, in order
+const { voices } = vi.hoisted(() => ({ voices: [] as FakeVoice[] }));
+
+vi.mock('./audio', () => ({
+  getPadPlaybackOptions: (pad: SoundPadData) => ({ padId: pad.id }),
+  playAudioBlob: vi.fn(async (_blob: Blob, _volume: number, options: { padId: string }) => {
+    let resolveEnded: (natural: boolean) => void = () => {};
+    const ended = new Promise<boolean>(resolve => { resolveEnded = resolve; });
+    const voice: FakeVoice = {
+      padId: options.padId,
+      stop: vi.fn(() => resolveEnded(false)),
+      finish: () => resolveEnded(true),
+    };
+    voices.push(voice);
+    return { id: voices.length, padId: options.padId, isPlaying: () => true, stop: voice.stop, ended, updateEffects: () => {} };
+  }),
+}));
+
+const pads: Record<string, SoundPadData> = Object.fromEntries(['pad-0', 'pad-1', 'pad-2'].map(id => [id, {
+  id,
+  bankId: 'bank-a',
+  name: id,
+  color: PadColor.RED,
+  volume: 1,
+  audioBlob: new Blob(['audio']),
+}]));
+
+const cueList = (cues: Omit<Cue, 'id'>[], id = 'cues-1'): CueList => ({
+  id,
+  name: 'Show',
+  cues: cues.map((cue, i) => ({ id: `cue-${i}`, ...cue })),
+});
+
+// Lets the player's voice promises settle
+const settle = async () => {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+};
+
+describe('cue player', () => {
+  let player: CuePlayerModule;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    voices.length = 0;
+    // Fresh module state (loaded list, standby, running cues) for every test
+    vi.resetModules();
+    player = await import('./cuePlayer');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const load = (list: CueList) => player.loadCueList(list, padId => pads[padId]);
+
+  it('fires the cue on standby and moves standby on', async () => {
+    load(cueList([{ padId: 'pad-0' }, { padId: 'pad-1' }]));
+    const { playAudioBlob } = await import('./audio');
+
+    player.goCue();
+    await settle();
+
+    expect(voices.map(v => v.padId)).toEqual(['pad-0']);
+    expect(vi.mocked(playAudioBlob).mock.calls[0][2]?.policy).toBe(PlaybackPolicy.LAYER);
+    expect(player.getCuePlayerState()).toMatchObject({ listId: 'cues-1', standbyIndex: 1, runningCueIds: ['cue-0'] });
+
+    voices[0].finish();
+    await settle();
+    expect(player.getCuePlayerState().runningCueIds).toEqual([]);
+  });
+
+  it('does nothing past the end of the list', async () => {
+    load(cueList([{ padId: 'pad-0' }]));
+    player.goCue();
+    player.goCue();
+    await settle();
+
+    expect(voices).toHaveLength(1);
+    expect(player.getCuePlayerState().standbyIndex).toBe(1);
+  });
+
+  it('waits out a cue\'s pre-wait before playing it', async () => {
+    load(cueList([{ padId: 'pad-0', preWait: 2 }]));
+    player.goCue();
+    await settle();
+
+    expect(voices).toHaveLength(0);
+    expect(player.getCuePlayerState().waitingCueIds).toEqual(['cue-0']);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(voices).toHaveLength(1);
+    expect(player.getCuePlayerState().waitingCueIds).toEqual([]);
+  });
+
+  it('cancels pre-waits and cuts running cues on stop', async () => {
+    load(cueList([{ padId: 'pad-0' }, { padId: 'pad-1', preWait: 2 }]));
+    player.goCue();
+    player.goCue();
+    await settle();
+
+    player.stopCues();
+    await settle();
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(voices.map(v => v.padId)).toEqual(['pad-0']);
+    expect(voices[0].stop).toHaveBeenCalledWith(0);
+    expect(player.getCuePlayerState()).toMatchObject({ standbyIndex: 2, runningCueIds: [], waitingCueIds: [] });
+  });
+
+  it('follows on when an auto-follow cue plays to its end', async () => {
+    load(cueList([{ padId: 'pad-0', autoFollow: true }, { padId: 'pad-1' }, { padId: 'pad-2' }]));
+    player.goCue();
+    await settle();
+
+    voices[0].finish();
+    await settle();
+
+    expect(voices.map(v => v.padId)).toEqual(['pad-0', 'pad-1']);
+    expect(player.getCuePlayerState().standbyIndex).toBe(2);
+  });
+
+  it('does not follow on from a cue that was stopped', async () => {
+    load(cueList([{ padId: 'pad-0', autoFollow: true }, { padId: 'pad-1' }]));
+    player.goCue();
+    await settle();
+
+    player.stopCues();
+    await settle();
+
+    expect(voices.map(v => v.padId)).toEqual(['pad-0']);
+  });
+
+  it('follows straight on from a cue whose pad has no sound', async () => {
+    load(cueList([{ padId: 'pad-missing', autoFollow: true }, { padId: 'pad-1' }]));
+    player.goCue();
+    await settle();
+
+    expect(voices.map(v => v.padId)).toEqual(['pad-1']);
+  });
+
+  it('fades out earlier cues when a cue asks to', async () => {
+    load(cueList([{ padId: 'pad-0' }, { padId: 'pad-1', fadePrevious: 3 }]));
+    player.goCue();
+    await settle();
+    player.goCue();
+    await settle();
+
+    expect(voices[0].stop).toHaveBeenCalledWith(3);
+    expect(voices[1].stop).not.toHaveBeenCalled();
+    expect(player.getCuePlayerState().runningCueIds).toEqual(['cue-1']);
+  });
+
+  it('keeps standby through edits to the loaded list, and resets it for another list', async () => {
+    load(cueList([{ padId: 'pad-0' }, { padId: 'pad-1' }, { padId: 'pad-2' }]));
+    player.setStandby(2);
+    load(cueList([{ padId: 'pad-0' }, { padId: 'pad-1' }]));
+    expect(player.getCuePlayerState().standbyIndex).toBe(2);
+
+    load(cueList([{ padId: 'pad-0' }], 'cues-2'));
+    expect(player.getCuePlayerState()).toMatchObject({ listId: 'cues-2', standbyIndex: 0 });
+  });
+
+  it('keeps standby within the list', () => {
+    load(cueList([{ padId: 'pad-0' }, { padId: 'pad-1' }]));
+    player.setStandby(10);
+    expect(player.getCuePlayerState().standbyIndex).toBe(2);
+    player.setStandby(-1);
+    expect(player.getCuePlayerState().standbyIndex).toBe(0);
+  });
+
+  it('tells subscribers the current state straight away and on changes', async () => {
+    const listener = vi.fn();
+    const unsubscribe = player.subscribeToCuePlayer(listener);
+    expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ listId: null }));
+
+    load(cueList([{ padId: 'pad-0' }]));
+    expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ listId: 'cues-1', standbyIndex: 0 }));
+
+    unsubscribe();
+    player.setStandby(1);
+    expect(listener).not.toHaveBeenLastCalledWith(expect.objectContaining({ standbyIndex: 1 }));
+  });
+});
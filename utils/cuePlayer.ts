@@ -0,0 +1,122 @@
+import { Cue, CueList, PlaybackPolicy, SoundPadData } from '../types';
+import { playAudioBlob, getPadPlaybackOptions, VoiceHandle } from './audio';
+
+// Runs one cue list at a time: GO fires the cue on standby and moves standby on.
+// Cues layer over each other; only a cue's own "fade previous" stops earlier ones.
+
+export interface CuePlayerState {
+  listId: string | null;
+  standbyIndex: number; // Cue the next GO fires; past the end when the list is done
+  runningCueIds: string[];
+  waitingCueIds: string[]; // GO'd, still in their pre-wait
+}
+
+type CuePlayerListener = (state: CuePlayerState) => void;
+
+let list: CueList | null = null;
+let resolvePad: (padId: string) => SoundPadData | undefined = () => undefined;
+let standbyIndex = 0;
+const runningCues: Map<string, Promise<VoiceHandle | null>> = new Map();
+const waitingCues: Map<string, ReturnType<typeof setTimeout>> = new Map();
+// Bumped by every stop, so voices and timers from before it can't auto-follow
+let generation = 0;
+
+const listeners: Set<CuePlayerListener> = new Set();
+
+export const getCuePlayerState = (): CuePlayerState => ({
+  listId: list?.id ?? null,
+  standbyIndex,
+  runningCueIds: Array.from(runningCues.keys()),
+  waitingCueIds: Array.from(waitingCues.keys()),
+});
+
+const notifyListeners = () => {
+  const state = getCuePlayerState();
+  listeners.forEach(listener => listener(state));
+};
+
+export const subscribeToCuePlayer = (listener: CuePlayerListener): (() => void) => {
+  listeners.add(listener);
+  listener(getCuePlayerState());
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Also called after edits to the loaded list; standby stays put unless the list changed
+export const loadCueList = (next: CueList | null, padLookup: (padId: string) => SoundPadData | undefined) => {
+  if (next?.id !== list?.id) {
+    stopCues();
+    standbyIndex = 0;
+  }
+  list = next;
+  resolvePad = padLookup;
+  if (list) standbyIndex = Math.min(standbyIndex, list.cues.length);
+  notifyListeners();
+};
+
+export const setStandby = (index: number) => {
+  if (!list) return;
+  standbyIndex = Math.max(0, Math.min(index, list.cues.length));
+  notifyListeners();
+};
+
+const fadeRunningCues = async (fadeOut: number) => {
+  const voices = Array.from(runningCues.values());
+  runningCues.clear();
+  (await Promise.all(voices)).forEach(voice => voice?.stop(fadeOut));
+};
+
+const startCue = (cue: Cue, index: number, startGeneration: number) => {
+  const pad = resolvePad(cue.padId);
+  if (cue.fadePrevious !== undefined) fadeRunningCues(cue.fadePrevious);
+  if (!pad?.audioBlob) {
+    // A cue whose pad was deleted or emptied has nothing to wait for, so follow straight on
+    if (cue.autoFollow) goCue(index + 1);
+    notifyListeners();
+    return;
+  }
+
+  const voice = playAudioBlob(pad.audioBlob, pad.volume, { ...getPadPlaybackOptions(pad), policy: PlaybackPolicy.LAYER });
+  runningCues.set(cue.id, voice);
+  notifyListeners();
+
+  voice.then(async handle => {
+    const natural = handle ? await handle.ended : false;
+    if (runningCues.get(cue.id) === voice) {
+      runningCues.delete(cue.id);
+      notifyListeners();
+    }
+    if (natural && cue.autoFollow && generation === startGeneration) goCue(index + 1);
+  });
+};
+
+// Fires the cue at `index` (standby by default) and puts the one after it on standby
+export const goCue = (index: number = standbyIndex) => {
+  if (!list) return;
+  const cue = list.cues[index];
+  if (!cue) return;
+  standbyIndex = index + 1;
+
+  const startGeneration = generation;
+  const preWait = cue.preWait || 0;
+  if (preWait > 0) {
+    const timer = setTimeout(() => {
+      waitingCues.delete(cue.id);
+      if (generation === startGeneration) startCue(cue, index, startGeneration);
+    }, preWait * 1000);
+    waitingCues.set(cue.id, timer);
+    notifyListeners();
+  } else {
+    startCue(cue, index, startGeneration);
+  }
+};
+
+// Cancels pending pre-waits and cuts every cue voice. Standby stays where it is.
+export const stopCues = () => {
+  generation++;
+  waitingCues.forEach(timer => clearTimeout(timer));
+  waitingCues.clear();
+  fadeRunningCues(0);
+  notifyListeners();
+};
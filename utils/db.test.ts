@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+
+type DbModule = typeof import('./db');
+
+const DB_NAME = 'SonicGridDB';
+
+// Pads as the original single-grid board saved them: no bank id, shortcuts from KeyboardEvent.key
+const V1_PADS = [
+  { id: 'pad-0', name: 'Air Horn', color: 'bg-red-500', volume: 1, shortcut: 'a' },
+  { id: 'pad-1', name: 'Applause', color: 'bg-blue-500', volume: 0.8, shortcut: 'Shift+!' },
+  { id: 'pad-2', name: 'Drum Roll', color: 'bg-green-500', volume: 0.5 },
+  // Escape now stops everything, so this pad could never fire from its old shortcut
+  { id: 'pad-3', name: 'Rimshot', color: 'bg-yellow-500', volume: 1, shortcut: 'Escape' },
+];
+
+const request = <T,>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+// Opens the database at `version`, running `upgrade` if it's an upgrade, and closes it again
+const openAt = (version: number, upgrade: (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number) => void) =>
+  new Promise<void>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, version);
+    req.onupgradeneeded = (event) => upgrade(req.result, req.transaction!, event.oldVersion);
+    req.onsuccess = () => {
+      req.result.close();
+      resolve();
+    };
+    req.onerror = () => reject(req.error);
+  });
+
+const readPads = () => new Promise<any[]>((resolve, reject) => {
+  const req = indexedDB.open(DB_NAME);
+  req.onsuccess = async () => {
+    const db = req.result;
+    try {
+      resolve(await request(db.transaction('pads', 'readonly').objectStore('pads').getAll()));
+    } catch (e) {
+      reject(e);
+    } finally {
+      db.close();
+    }
+  };
+  req.onerror = () => reject(req.error);
+});
+
+// A database as the first release of the app left it
+const seedV1Database = (db: DbModule) => openAt(1, (idb, transaction) => {
+  db.MIGRATIONS[1](idb, transaction);
+  V1_PADS.forEach(pad => transaction.objectStore('pads').put(pad));
+});
+
+describe('database migrations', () => {
+  let db: DbModule;
+
+  beforeEach(async () => {
+    // A fresh browser profile and a fresh shared connection for every test
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    db = await import('./db');
+    await seedV1Database(db);
+  });
+
+  it('keeps every pad through each upgrade step', async () => {
+    for (let version = 2; version <= db.DB_VERSION; version++) {
+      await openAt(version, (idb, transaction, oldVersion) => db.runMigrations(idb, transaction, oldVersion, version));
+      const pads = await readPads();
+      expect(pads.map(p => p.id).sort()).toEqual(V1_PADS.map(p => p.id));
+      expect(pads.map(p => p.name).sort()).toEqual(V1_PADS.map(p => p.name).sort());
+    }
+  });
+
+  it('upgrades a v1 board to the current version', async () => {
+    const pads = await db.getPadsFromDB();
+    const byId = Object.fromEntries(pads.map(p => [p.id, p]));
+
+    expect(pads).toHaveLength(V1_PADS.length);
+    // Migration 4: pads from before banks land on the default bank
+    pads.forEach(pad => expect(pad.bankId).toBe('bank-a'));
+    // Migration 6: shortcuts become physical key codes
+    expect(byId['pad-0'].shortcut).toBe('KeyA');
+    expect(byId['pad-1'].shortcut).toBe('Shift+Digit1');
+    expect(byId['pad-2'].shortcut).toBeUndefined();
+    // Reserved keys are dropped so the pad can be bound again
+    expect(byId['pad-3'].shortcut).toBeUndefined();
+    expect(byId['pad-1'].volume).toBe(0.8);
+  });
+
+  it('records every applied migration in the schema record', async () => {
+    const schema = await db.getSchemaRecordFromDB();
+    const expected = Array.from({ length: db.DB_VERSION - 1 }, (_, i) => i + 2);
+
+    expect(schema?.version).toBe(db.DB_VERSION);
+    expect(schema?.applied.map(entry => entry.version)).toEqual(expected);
+  });
+});
@@ -1,21 +1,204 @@
-import { SoundPadData } from '../types';
+import { SoundPadData, PadBank, BoardSettings, CueList } from '../types';
+import { DEFAULT_BANK } from './banks';
 
 const DB_NAME = 'SonicGridDB';
 const STORE_NAME = 'pads';
-const DB_VERSION = 1;
+const BANK_STORE_NAME = 'banks';
+const SETTINGS_STORE_NAME = 'settings';
+const META_STORE_NAME = 'meta';
+const CUE_LIST_STORE_NAME = 'cueLists';
+const BOARD_SETTINGS_KEY = 'board';
+const SCHEMA_KEY = 'schema';
 
-export const openDB = (): Promise<IDBDatabase> => {
+// Runs inside `onupgradeneeded`, with the versionchange transaction for data changes.
+// Migrations that rewrite records return a promise for when they're done, so the
+// next migration reads what they wrote rather than racing them with its own cursor.
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void | Promise<void>;
+
+export interface SchemaRecord {
+  version: number;
+  applied: Array<{ version: number; appliedAt: string }>;
+}
+
+// A pad as any schema version may have stored it: pads from before banks have no bank id
+type StoredPad = Omit<SoundPadData, 'bankId'> & { bankId?: string };
+
+// Walks every stored pad, saving the record `update` returns (undefined leaves it as is)
+const updateEachPad = (transaction: IDBTransaction, update: (pad: StoredPad) => StoredPad | undefined): Promise<void> => {
   return new Promise((resolve, reject) => {
+    const request = transaction.objectStore(STORE_NAME).openCursor();
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve();
+      const updated = update(cursor.value as StoredPad);
+      if (updated) cursor.update(updated);
+      cursor.continue();
+    };
+  });
+};
+
+// Shortcut conversion for migration 6, frozen as it shipped so later changes to
+// utils/shortcuts.ts can't alter what the migration does. Turns a KeyboardEvent.key
+// combo recorded on a US layout ("Shift+!") into a key code combo ("Shift+Digit1").
+// Combos that had become app keys by then are dropped, leaving the pad unbound.
+const MIGRATION_6_MODIFIERS = ['Ctrl', 'Shift', 'Alt', 'Meta'];
+const MIGRATION_6_ALIASES: Record<string, string> = {
+  control: 'Ctrl', ctrl: 'Ctrl', shift: 'Shift', alt: 'Alt', option: 'Alt', meta: 'Meta', cmd: 'Meta', command: 'Meta',
+};
+const MIGRATION_6_US_CODES: Record<string, string> = {
+  Backquote: '`~', Digit1: '1!', Digit2: '2@', Digit3: '3#', Digit4: '4$', Digit5: '5%', Digit6: '6^',
+  Digit7: '7&', Digit8: '8*', Digit9: '9(', Digit0: '0)', Minus: '-_', Equal: '=+', BracketLeft: '[{',
+  BracketRight: ']}', Backslash: '\\|', Semicolon: ';:', Quote: '\'"', Comma: ',<', Period: '.>', Slash: '/?',
+};
+const MIGRATION_6_RESERVED = [
+  'Escape', 'Shift+Escape', 'PageUp', 'PageDown', 'Shift+Slash',
+  'Ctrl+KeyZ', 'Meta+KeyZ', 'Ctrl+Shift+KeyZ', 'Shift+Meta+KeyZ', 'Ctrl+KeyY',
+  ...Array.from({ length: 9 }, (_, i) => `Alt+Digit${i + 1}`),
+];
+
+const convertShortcutForMigration6 = (legacy: string): string | undefined => {
+  // A trailing "+" is the plus key itself, not a separator
+  const parts = legacy.trim().split(/\+(?!$)/);
+  const key = parts[parts.length - 1];
+  if (!key) return undefined;
+  const modifiers = parts.slice(0, -1).map(part => MIGRATION_6_ALIASES[part.toLowerCase()] || part);
+
+  let code: string | undefined;
+  if (/^[A-Za-z]$/.test(key)) code = `Key${key.toUpperCase()}`;
+  else if (key === 'Space' || key === ' ') code = 'Space';
+  else if (key.length === 1) code = Object.keys(MIGRATION_6_US_CODES).find(c => MIGRATION_6_US_CODES[c].includes(key));
+  else code = key; // Named keys (Enter, F5, ArrowUp, ...) share their name with their code
+  if (!code) return undefined;
+
+  const shortcut = [...MIGRATION_6_MODIFIERS.filter(m => modifiers.includes(m)), code].join('+');
+  return MIGRATION_6_RESERVED.includes(shortcut) ? undefined : shortcut;
+};
+
+// Ordered schema migrations: the entry for N upgrades a database from version N - 1 to N.
+// Never change a migration that has shipped; add a new one instead.
+export const MIGRATIONS: Record<number, Migration> = {
+  // Original single-grid board
+  1: (db) => {
+    db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+  },
+  // Pad banks
+  2: (db) => {
+    db.createObjectStore(BANK_STORE_NAME, { keyPath: 'id' });
+  },
+  // Board settings
+  3: (db) => {
+    db.createObjectStore(SETTINGS_STORE_NAME, { keyPath: 'id' });
+  },
+  // Schema bookkeeping, and backfill the bank id on pads saved before banks existed
+  4: (db, transaction) => {
+    db.createObjectStore(META_STORE_NAME, { keyPath: 'id' });
+    return updateEachPad(transaction, pad => pad.bankId ? undefined : { ...pad, bankId: DEFAULT_BANK.id });
+  },
+  // Cue lists
+  5: (db) => {
+    db.createObjectStore(CUE_LIST_STORE_NAME, { keyPath: 'id' });
+  },
+  // Shortcuts move from KeyboardEvent.key combos ("Shift+!") to physical key codes ("Shift+Digit1").
+  // Ones that now hit a reserved key are dropped.
+  6: (db, transaction) => {
+    return updateEachPad(transaction, pad => pad.shortcut ? { ...pad, shortcut: convertShortcutForMigration6(pad.shortcut) } : undefined);
+  },
+};
+
+export const DB_VERSION = Math.max(...Object.keys(MIGRATIONS).map(Number));
+
+// Applies every migration after `oldVersion` in order, then records what ran.
+// A migration that fails aborts the upgrade, leaving the database at `oldVersion`.
+export const runMigrations = (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number, newVersion: number) => {
+  const ranVersions: number[] = [];
+  for (let version = oldVersion + 1; version <= newVersion; version++) {
+    if (!MIGRATIONS[version]) {
+      throw new Error(`Missing database migration for version ${version}`);
+    }
+    ranVersions.push(version);
+  }
+
+  // The transaction stays open across these steps: each one continues from a request callback
+  ranVersions
+    .reduce((previous, version) => previous.then(() => MIGRATIONS[version](db, transaction)), Promise.resolve())
+    .then(() => recordMigrations(db, transaction, ranVersions, newVersion))
+    .catch(e => {
+      console.error("Database migration failed", e);
+      transaction.abort();
+    });
+};
+
+const recordMigrations = (db: IDBDatabase, transaction: IDBTransaction, ranVersions: number[], newVersion: number) => {
+  // Upgrades that stop short of version 4 have nowhere to record themselves
+  if (!db.objectStoreNames.contains(META_STORE_NAME)) return;
+
+  const metaStore = transaction.objectStore(META_STORE_NAME);
+  const request = metaStore.get(SCHEMA_KEY);
+  request.onsuccess = () => {
+    const appliedAt = new Date().toISOString();
+    const previous: SchemaRecord['applied'] = request.result?.applied || [];
+    metaStore.put({
+      id: SCHEMA_KEY,
+      version: newVersion,
+      applied: [...previous, ...ranVersions.map(version => ({ version, appliedAt }))],
+    });
+  };
+};
+
+// One connection shared by every call; reopened if the browser closes it
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
 
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab is upgrading the schema: step aside so it isn't blocked
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      db.onclose = () => {
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+
+    // Another tab still has the old version open and didn't close it (e.g. it's running an older build).
+    // The upgrade carries on by itself once that tab is closed or reloaded.
+    request.onblocked = () => {
+      alert("The sound board is open in another tab that needs to close before it can update. Close or reload the other tab to continue.");
+    };
 
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-      }
+      const db = request.result;
+      runMigrations(db, request.transaction!, event.oldVersion, event.newVersion ?? DB_VERSION);
+    };
+  });
+  return dbPromise;
+};
+
+export const getSchemaRecordFromDB = async (): Promise<SchemaRecord | null> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([META_STORE_NAME], 'readonly');
+    const store = transaction.objectStore(META_STORE_NAME);
+    const request = store.get(SCHEMA_KEY);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      if (!request.result) return resolve(null);
+      const { id, ...record } = request.result;
+      resolve(record as SchemaRecord);
     };
   });
 };
@@ -54,4 +237,171 @@ export const deletePadFromDB = async (id: string): Promise<void> => {
     request.onerror = () => reject(request.error);
     request.onsuccess = () => resolve();
   });
-};
\ No newline at end of file
+};
+
+// Writes and removes several pads in one transaction, so a move or swap is all-or-nothing
+export const writePadsToDB = async (pads: SoundPadData[], deletedIds: string[] = []): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    deletedIds.forEach(id => store.delete(id));
+    pads.forEach(pad => store.put(pad));
+
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+    transaction.oncomplete = () => resolve();
+  });
+};
+
+export const saveBankToDB = async (bank: PadBank): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([BANK_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(BANK_STORE_NAME);
+    const request = store.put(bank);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve();
+  });
+};
+
+export const getBanksFromDB = async (): Promise<PadBank[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([BANK_STORE_NAME], 'readonly');
+    const store = transaction.objectStore(BANK_STORE_NAME);
+    const request = store.getAll();
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result as PadBank[]);
+  });
+};
+
+// Removes the bank and every pad stored on it in a single transaction
+export const deleteBankFromDB = async (bankId: string, padIds: string[]): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([BANK_STORE_NAME, STORE_NAME], 'readwrite');
+    transaction.objectStore(BANK_STORE_NAME).delete(bankId);
+    const padStore = transaction.objectStore(STORE_NAME);
+    padIds.forEach(id => padStore.delete(id));
+
+    transaction.onerror = () => reject(transaction.error);
+    transaction.oncomplete = () => resolve();
+  });
+};
+
+export const saveCueListToDB = async (list: CueList): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([CUE_LIST_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(CUE_LIST_STORE_NAME);
+    const request = store.put(list);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve();
+  });
+};
+
+export const getCueListsFromDB = async (): Promise<CueList[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([CUE_LIST_STORE_NAME], 'readonly');
+    const store = transaction.objectStore(CUE_LIST_STORE_NAME);
+    const request = store.getAll();
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result as CueList[]);
+  });
+};
+
+export const deleteCueListFromDB = async (id: string): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([CUE_LIST_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(CUE_LIST_STORE_NAME);
+    const request = store.delete(id);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve();
+  });
+};
+
+export const saveSettingsToDB = async (settings: BoardSettings): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SETTINGS_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(SETTINGS_STORE_NAME);
+    const request = store.put({ ...settings, id: BOARD_SETTINGS_KEY });
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve();
+  });
+};
+
+// Returns null when the board has never been configured
+export const getSettingsFromDB = async (): Promise<Partial<BoardSettings> | null> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SETTINGS_STORE_NAME], 'readonly');
+    const store = transaction.objectStore(SETTINGS_STORE_NAME);
+    const request = store.get(BOARD_SETTINGS_KEY);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      if (!request.result) return resolve(null);
+      const { id, ...settings } = request.result;
+      resolve(settings as Partial<BoardSettings>);
+    };
+  });
+};
+
+// Writes an imported board in one transaction, so a failed import leaves the
+// existing board untouched. When replacing, all existing banks and pads go first.
+// Cue lists are replaced too when the import brings its own; otherwise (null
+// `cueLists`) they keep only the cues whose pads are part of the import.
+export const importBoardToDB = async (
+  banks: PadBank[],
+  pads: SoundPadData[],
+  settings: BoardSettings | null,
+  cueLists: CueList[] | null,
+  replace: boolean
+): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([BANK_STORE_NAME, STORE_NAME, SETTINGS_STORE_NAME, CUE_LIST_STORE_NAME], 'readwrite');
+    const bankStore = transaction.objectStore(BANK_STORE_NAME);
+    const padStore = transaction.objectStore(STORE_NAME);
+    const cueListStore = transaction.objectStore(CUE_LIST_STORE_NAME);
+
+    if (replace) {
+      bankStore.clear();
+      padStore.clear();
+    }
+    if (replace && cueLists) {
+      cueListStore.clear();
+    } else if (replace) {
+      const padIds = new Set(pads.map(pad => pad.id));
+      const request = cueListStore.openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const list = cursor.value as CueList;
+        const cues = list.cues.filter(cue => padIds.has(cue.padId));
+        if (cues.length !== list.cues.length) cursor.update({ ...list, cues });
+        cursor.continue();
+      };
+    }
+    banks.forEach(bank => bankStore.put(bank));
+    pads.forEach(pad => padStore.put(pad));
+    cueLists?.forEach(list => cueListStore.put(list));
+    if (settings) {
+      transaction.objectStore(SETTINGS_STORE_NAME).put({ ...settings, id: BOARD_SETTINGS_KEY });
+    }
+
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+    transaction.oncomplete = () => resolve();
+  });
+};
@@ -0,0 +1,62 @@
+// Reading audio files dropped onto the board, including whole folders
+
+export interface SkippedFile {
+  name: string;
+  reason: string;
+}
+
+export interface FileDropResult {
+  loaded: number;
+  skipped: SkippedFile[];
+}
+
+// Pad label from a file name: the name without its extension
+export const getNameFromFile = (file: File): string => file.name.replace(/\.[^/.]+$/, "");
+
+// Chrome hands out directory entries in batches, so read until an empty one
+const readAllEntries = async (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> => {
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const readEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [file];
+  }
+  if (entry.isDirectory) {
+    const children = await readAllEntries((entry as FileSystemDirectoryEntry).createReader());
+    const nested = await Promise.all(children.map(readEntry));
+    return nested.flat();
+  }
+  return [];
+};
+
+const naturalOrder = (a: File, b: File) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' });
+
+// Every file in a drop, with folders expanded, sorted by name ("2 Intro" before "10 Outro").
+// Hidden files such as .DS_Store are left out.
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  // Items are only readable while the drop event is being handled, so grab the entries first
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  const fallback = Array.from(dataTransfer.files);
+
+  let files = fallback;
+  if (entries.length > 0) {
+    try {
+      files = (await Promise.all(entries.map(readEntry))).flat();
+    } catch (e) {
+      console.error("Failed to read dropped folder", e);
+    }
+  }
+  return files.filter(file => !file.name.startsWith('.')).sort(naturalOrder);
+};
+
+export const isFileDrag = (dataTransfer: DataTransfer): boolean => dataTransfer.types.includes('Files');
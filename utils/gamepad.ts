@@ -0,0 +1,175 @@
+import { GamepadBinding, GamepadInputType, GamepadMappings, SoundPadData } from '../types';
+
+// Gamepad API input. Browsers don't fire events for button presses, so connected
+// gamepads are polled every frame and changes are turned into press/release events.
+
+export interface GamepadInputEvent {
+  binding: GamepadBinding;
+  isPressed: boolean;
+}
+
+type GamepadListener = (event: GamepadInputEvent) => void;
+type GamepadsListener = (gamepadNames: string[]) => void;
+
+// How far an axis has to move before it counts as pressed
+const AXIS_THRESHOLD = 0.5;
+
+const listeners: Set<GamepadListener> = new Set();
+const gamepadsListeners: Set<GamepadsListener> = new Set();
+// Inputs currently held, keyed per gamepad and input, e.g. "0:button:3" or "0:axis:1:-1"
+const pressedInputs: Map<string, GamepadBinding> = new Map();
+let pollFrame: number | null = null;
+let isStarted = false;
+// While learning, the next press goes here instead of to the listeners.
+// Only one control learns at a time; null tells a capture it was cancelled.
+let captureResolver: ((binding: GamepadBinding | null) => void) | null = null;
+
+export const formatGamepadBinding = (binding: GamepadBinding): string => {
+  if (binding.type === GamepadInputType.AXIS) {
+    return `Axis ${binding.index}${binding.direction === -1 ? '−' : '+'}`;
+  }
+  return `Button ${binding.index}`;
+};
+
+export const isSameGamepadBinding = (a?: GamepadBinding, b?: GamepadBinding): boolean => {
+  if (!a || !b || a.type !== b.type || a.index !== b.index) return false;
+  return a.type === GamepadInputType.BUTTON || a.direction === b.direction;
+};
+
+const getGamepads = (): Gamepad[] => {
+  if (!navigator.getGamepads) return [];
+  return navigator.getGamepads().filter((gamepad): gamepad is Gamepad => !!gamepad && gamepad.connected);
+};
+
+const emit = (binding: GamepadBinding, isPressed: boolean) => {
+  if (captureResolver) {
+    if (isPressed) {
+      const resolve = captureResolver;
+      captureResolver = null;
+      resolve(binding);
+    }
+    return;
+  }
+  listeners.forEach(listener => listener({ binding, isPressed }));
+};
+
+const updateInput = (key: string, isPressed: boolean, binding: GamepadBinding) => {
+  if (isPressed === pressedInputs.has(key)) return;
+  if (isPressed) pressedInputs.set(key, binding);
+  else pressedInputs.delete(key);
+  emit(binding, isPressed);
+};
+
+const poll = () => {
+  const gamepads = getGamepads();
+  gamepads.forEach(gamepad => {
+    gamepad.buttons.forEach((button, index) => {
+      updateInput(`${gamepad.index}:button:${index}`, button.pressed, { type: GamepadInputType.BUTTON, index });
+    });
+    gamepad.axes.forEach((value, index) => {
+      updateInput(`${gamepad.index}:axis:${index}:1`, value >= AXIS_THRESHOLD, { type: GamepadInputType.AXIS, index, direction: 1 });
+      updateInput(`${gamepad.index}:axis:${index}:-1`, value <= -AXIS_THRESHOLD, { type: GamepadInputType.AXIS, index, direction: -1 });
+    });
+  });
+
+  // Nothing to poll until another gamepad connects
+  pollFrame = gamepads.length > 0 ? requestAnimationFrame(poll) : null;
+};
+
+const handleConnectionChange = (e: GamepadEvent) => {
+  if (!e.gamepad.connected) {
+    // Anything held on a disconnected gamepad counts as released
+    const prefix = `${e.gamepad.index}:`;
+    Array.from(pressedInputs.keys())
+      .filter(key => key.startsWith(prefix))
+      .forEach(key => updateInput(key, false, pressedInputs.get(key)!));
+  }
+  if (pollFrame === null) pollFrame = requestAnimationFrame(poll);
+
+  const names = getGamepads().map(gamepad => gamepad.id);
+  gamepadsListeners.forEach(listener => listener(names));
+};
+
+// Starts watching for gamepads; safe to call repeatedly
+export const startGamepadPolling = () => {
+  if (isStarted || typeof window === 'undefined' || !navigator.getGamepads) return;
+  isStarted = true;
+  window.addEventListener('gamepadconnected', handleConnectionChange);
+  window.addEventListener('gamepaddisconnected', handleConnectionChange);
+  // Gamepads already connected before the page loaded
+  pollFrame = requestAnimationFrame(poll);
+};
+
+export const subscribeToGamepad = (listener: GamepadListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const subscribeToGamepads = (listener: GamepadsListener): (() => void) => {
+  gamepadsListeners.add(listener);
+  listener(getGamepads().map(gamepad => gamepad.id));
+  return () => {
+    gamepadsListeners.delete(listener);
+  };
+};
+
+export interface GamepadCapture {
+  binding: Promise<GamepadBinding | null>; // Null if cancelled or taken over by another capture
+  cancel: () => void; // Only ends this capture, never a newer one
+}
+
+// Waits for the next button or axis pressed (gamepad learn). Starting a capture
+// cancels any other still waiting.
+export const captureNextGamepadBinding = (): GamepadCapture => {
+  startGamepadPolling();
+  captureResolver?.(null);
+  let resolver: (binding: GamepadBinding | null) => void = () => {};
+  const binding = new Promise<GamepadBinding | null>(resolve => {
+    resolver = resolve;
+  });
+  captureResolver = resolver;
+  return {
+    binding,
+    cancel: () => {
+      if (captureResolver !== resolver) return;
+      captureResolver = null;
+      resolver(null);
+    },
+  };
+};
+
+export const GAMEPAD_MAPPING_LABELS: Record<keyof GamepadMappings, string> = {
+  stopAll: 'Stop all sounds',
+  fade: 'Fade out all sounds',
+  nextBank: 'Next bank',
+};
+
+// The board action already mapped to `binding`, if any
+export const findGamepadMapping = (mappings: GamepadMappings, binding: GamepadBinding): keyof GamepadMappings | undefined => {
+  return (Object.keys(GAMEPAD_MAPPING_LABELS) as (keyof GamepadMappings)[]).find(key => isSameGamepadBinding(mappings[key], binding));
+};
+
+// Pads that would answer to the same gamepad input as `pad`; same scope rules as shortcuts
+export const findGamepadConflicts = (
+  pads: SoundPadData[],
+  pad: Pick<SoundPadData, 'id' | 'bankId' | 'isGlobal'>,
+  binding: GamepadBinding
+): SoundPadData[] => {
+  return pads.filter(p =>
+    p.id !== pad.id &&
+    isSameGamepadBinding(p.gamepadBinding, binding) &&
+    (p.bankId === pad.bankId || p.isGlobal || pad.isGlobal)
+  );
+};
+
+// Same lookup order as keyboard shortcuts: active bank first, then global pads
+export const findPadByGamepadBinding = (
+  pads: SoundPadData[],
+  binding: GamepadBinding,
+  activeBankId: string
+): SoundPadData | undefined => {
+  const loaded = pads.filter(p => p.audioBlob && isSameGamepadBinding(p.gamepadBinding, binding));
+  return loaded.find(p => p.bankId === activeBankId) || loaded.find(p => p.isGlobal);
+};
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BoardSettings, DEFAULT_BOARD_SETTINGS, PadColor, SoundPadData } from '../types';
+import { clearHistory, HistoryState, recordHistory, subscribeToHistory, takeRedo, takeUndo } from './history';
+
+const pad = (name: string): SoundPadData => ({ id: 'pad-0', bankId: 'bank-a', name, color: PadColor.RED, volume: 1 });
+
+const rename = (from: string, to: string) => ({
+  label: `Rename ${from}`,
+  pads: [{ id: 'pad-0', before: pad(from), after: pad(to) }],
+});
+
+const settings = (rows: number): BoardSettings => ({ ...DEFAULT_BOARD_SETTINGS, rows });
+
+const resize = (from: number, to: number) => ({
+  label: 'Grid size',
+  settings: { before: settings(from), after: settings(to) },
+});
+
+describe('history', () => {
+  let state: HistoryState;
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    clearHistory();
+    unsubscribe = subscribeToHistory(next => { state = next; });
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    vi.useRealTimers();
+  });
+
+  it('starts empty', () => {
+    expect(state).toEqual({ undoLabel: null, redoLabel: null });
+    expect(takeUndo()).toBeUndefined();
+    expect(takeRedo()).toBeUndefined();
+  });
+
+  it('undoes and redoes edits in order', () => {
+    recordHistory(rename('Kick', 'Snare'));
+    recordHistory(rename('Snare', 'Clap'));
+    expect(state.undoLabel).toBe('Rename Snare');
+
+    expect(takeUndo()?.pads?.[0].before?.name).toBe('Snare');
+    expect(state).toEqual({ undoLabel: 'Rename Kick', redoLabel: 'Rename Snare' });
+    expect(takeUndo()?.pads?.[0].before?.name).toBe('Kick');
+
+    expect(takeRedo()?.pads?.[0].after?.name).toBe('Snare');
+    expect(state).toEqual({ undoLabel: 'Rename Kick', redoLabel: 'Rename Snare' });
+  });
+
+  it('drops redo steps when a new edit is made', () => {
+    recordHistory(rename('Kick', 'Snare'));
+    takeUndo();
+    recordHistory(rename('Kick', 'Hat'));
+
+    expect(state.redoLabel).toBeNull();
+    expect(takeRedo()).toBeUndefined();
+  });
+
+  it('keeps only the most recent 50 steps', () => {
+    for (let i = 0; i < 60; i++) recordHistory({ label: `Edit ${i}` });
+
+    const labels: string[] = [];
+    let entry;
+    while ((entry = takeUndo())) labels.push(entry.label);
+    expect(labels).toHaveLength(50);
+    expect(labels[labels.length - 1]).toBe('Edit 10');
+  });
+
+  it('merges quick edits with the same key into one step', () => {
+    recordHistory(resize(4, 5), 'rows');
+    vi.advanceTimersByTime(500);
+    recordHistory(resize(5, 6), 'rows');
+
+    const entry = takeUndo();
+    expect(entry?.settings).toEqual({ before: settings(4), after: settings(6) });
+    expect(takeUndo()).toBeUndefined();
+  });
+
+  it('keeps edits apart when they are slow or have other keys', () => {
+    recordHistory(resize(4, 5), 'rows');
+    vi.advanceTimersByTime(1500);
+    recordHistory(resize(5, 6), 'rows');
+    recordHistory(resize(6, 7), 'cols');
+
+    expect(takeUndo()?.settings?.before.rows).toBe(6);
+    expect(takeUndo()?.settings?.before.rows).toBe(5);
+    expect(takeUndo()?.settings?.before.rows).toBe(4);
+  });
+
+  it('never merges an edit into a redone step', () => {
+    recordHistory(resize(4, 5), 'rows');
+    takeUndo();
+    takeRedo();
+    recordHistory(resize(5, 6), 'rows');
+
+    expect(takeUndo()?.settings?.before.rows).toBe(5);
+    expect(takeUndo()?.settings?.before.rows).toBe(4);
+  });
+
+  it('forgets everything when cleared', () => {
+    recordHistory(rename('Kick', 'Snare'));
+    recordHistory(rename('Snare', 'Clap'));
+    takeUndo();
+    clearHistory();
+
+    expect(state).toEqual({ undoLabel: null, redoLabel: null });
+  });
+});
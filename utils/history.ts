@@ -0,0 +1,104 @@
+import { BoardSettings, SoundPadData } from '../types';
+
+// Undo/redo for board edits. Entries hold whole pad records, audio included, so a
+// replaced or cleared sound stays restorable for as long as its entry is kept.
+
+const MAX_ENTRIES = 50;
+// Settings edits with the same merge key this close together undo as one step (e.g. a slider drag)
+const MERGE_WINDOW_MS = 1000;
+
+// A pad slot before and after an edit; null is an empty slot with nothing stored
+export interface PadChange {
+  id: string;
+  before: SoundPadData | null;
+  after: SoundPadData | null;
+}
+
+export interface HistoryEntry {
+  label: string; // e.g. "Delete Air Horn", shown on the undo/redo buttons
+  pads?: PadChange[];
+  settings?: { before: BoardSettings; after: BoardSettings };
+}
+
+interface StoredEntry extends HistoryEntry {
+  mergeKey?: string;
+  recordedAt: number;
+}
+
+export interface HistoryState {
+  undoLabel: string | null; // null when there's nothing to undo
+  redoLabel: string | null;
+}
+
+type HistoryListener = (state: HistoryState) => void;
+
+const undoStack: StoredEntry[] = [];
+const redoStack: StoredEntry[] = [];
+const listeners: Set<HistoryListener> = new Set();
+
+const getHistoryState = (): HistoryState => ({
+  undoLabel: undoStack[undoStack.length - 1]?.label ?? null,
+  redoLabel: redoStack[redoStack.length - 1]?.label ?? null,
+});
+
+const notifyListeners = () => {
+  const state = getHistoryState();
+  listeners.forEach(listener => listener(state));
+};
+
+export const subscribeToHistory = (listener: HistoryListener): (() => void) => {
+  listeners.add(listener);
+  listener(getHistoryState());
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Records an edit that has just been made. Any redo steps are dropped.
+export const recordHistory = (entry: HistoryEntry, mergeKey?: string) => {
+  redoStack.length = 0;
+  const now = Date.now();
+  const last = undoStack[undoStack.length - 1];
+
+  if (mergeKey && last?.mergeKey === mergeKey && now - last.recordedAt < MERGE_WINDOW_MS) {
+    // Keep the oldest "before" so undo goes back past the whole run of edits
+    undoStack[undoStack.length - 1] = {
+      ...entry,
+      settings: entry.settings && last.settings && { before: last.settings.before, after: entry.settings.after },
+      mergeKey,
+      recordedAt: now,
+    };
+  } else {
+    undoStack.push({ ...entry, mergeKey, recordedAt: now });
+    if (undoStack.length > MAX_ENTRIES) undoStack.shift();
+  }
+  notifyListeners();
+};
+
+// Takes the entry to undo and moves it to the redo stack; the caller applies its "before" side
+export const takeUndo = (): HistoryEntry | undefined => {
+  const entry = undoStack.pop();
+  if (entry) {
+    redoStack.push(entry);
+    notifyListeners();
+  }
+  return entry;
+};
+
+// Takes the entry to redo and moves it back to the undo stack; the caller applies its "after" side
+export const takeRedo = (): HistoryEntry | undefined => {
+  const entry = redoStack.pop();
+  if (entry) {
+    // Never merge a later edit into a redone step
+    undoStack.push({ ...entry, mergeKey: undefined });
+    notifyListeners();
+  }
+  return entry;
+};
+
+// Forget everything, e.g. after an import replaces the board
+export const clearHistory = () => {
+  undoStack.length = 0;
+  redoStack.length = 0;
+  notifyListeners();
+};
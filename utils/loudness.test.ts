@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { analyzeLoudness, getNormalizationDb, getNormalizationGain, setLoudnessTarget } from './loudness';
+
+const SAMPLE_RATE = 48000;
+
+// Just the parts of AudioBuffer the analysis reads
+const buffer = (channels: Float32Array[]): AudioBuffer => ({
+  numberOfChannels: channels.length,
+  length: channels[0]?.length ?? 0,
+  sampleRate: SAMPLE_RATE,
+  getChannelData: (i: number) => channels[i],
+} as unknown as AudioBuffer);
+
+const sine = (seconds: number, amplitude = 1, frequency = 997) =>
+  Float32Array.from({ length: Math.round(seconds * SAMPLE_RATE) }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE));
+
+const silence = (seconds: number) => new Float32Array(Math.round(seconds * SAMPLE_RATE));
+
+describe('analyzeLoudness', () => {
+  it('reads a full-scale mono tone at about -3 LUFS', () => {
+    // The BS.1770 reference: a 997 Hz sine at 0 dBFS in one channel measures -3.01 LKFS
+    const { peak, rms, lufs } = analyzeLoudness(buffer([sine(1)]));
+    expect(peak).toBe(0);
+    expect(rms).toBe(-3);
+    expect(lufs).toBeCloseTo(-3, 0);
+  });
+
+  it('follows the level of the clip', () => {
+    const full = analyzeLoudness(buffer([sine(1)]));
+    const half = analyzeLoudness(buffer([sine(1, 0.5)]));
+    expect(half.peak).toBe(-6);
+    expect(half.lufs).toBeCloseTo(full.lufs - 6, 0);
+  });
+
+  it('adds up the channels', () => {
+    const mono = analyzeLoudness(buffer([sine(1)]));
+    const stereo = analyzeLoudness(buffer([sine(1), sine(1)]));
+    expect(stereo.lufs).toBeCloseTo(mono.lufs + 3, 0);
+  });
+
+  it('gates out silence, so gaps in a clip do not make it read quieter', () => {
+    const tone = analyzeLoudness(buffer([sine(4)]));
+    const withGap = analyzeLoudness(buffer([Float32Array.from([...sine(4), ...silence(4)])]));
+    // Half the clip is silent, which would be 3 dB quieter ungated; only the blocks
+    // straddling the edge of the tone still count
+    expect(withGap.rms).toBe(tone.rms - 3);
+    expect(withGap.lufs).toBeGreaterThan(tone.lufs - 1);
+    expect(withGap.lufs).toBeLessThanOrEqual(tone.lufs);
+  });
+
+  it('gives silent and empty clips a finite floor', () => {
+    expect(analyzeLoudness(buffer([silence(1)]))).toEqual({ peak: -120, rms: -120, lufs: -120 });
+    expect(analyzeLoudness(buffer([silence(0)]))).toEqual({ peak: -120, rms: -120, lufs: -120 });
+  });
+});
+
+describe('getNormalizationDb', () => {
+  afterEach(() => {
+    setLoudnessTarget(null);
+  });
+
+  it('leaves clips alone when normalization is off or they were never measured', () => {
+    expect(getNormalizationDb({ peak: -10, rms: -20, lufs: -30 })).toBe(0);
+    expect(getNormalizationDb(undefined, -16)).toBe(0);
+    expect(getNormalizationDb({ peak: -120, rms: -120, lufs: -120 }, -16)).toBe(0);
+  });
+
+  it('turns loud clips down to the target', () => {
+    expect(getNormalizationDb({ peak: 0, rms: -8, lufs: -6 }, -16)).toBe(-10);
+  });
+
+  it('turns quiet clips up, without pushing the peak over the ceiling', () => {
+    expect(getNormalizationDb({ peak: -10, rms: -24, lufs: -22 }, -16)).toBe(6);
+    // Only 3 dB of headroom below the -1 dBFS ceiling
+    expect(getNormalizationDb({ peak: -4, rms: -24, lufs: -22 }, -16)).toBe(3);
+    expect(getNormalizationDb({ peak: 0, rms: -24, lufs: -22 }, -16)).toBe(0);
+  });
+
+  it('boosts very quiet clips by 20 dB at most', () => {
+    expect(getNormalizationDb({ peak: -40, rms: -50, lufs: -50 }, -16)).toBe(20);
+  });
+
+  it('uses the board target by default', () => {
+    setLoudnessTarget(-16);
+    expect(getNormalizationDb({ peak: 0, rms: -8, lufs: -6 })).toBe(-10);
+    expect(getNormalizationGain({ peak: 0, rms: -8, lufs: -6 })).toBeCloseTo(Math.pow(10, -10 / 20));
+  });
+
+  it('is unity gain when there is nothing to correct', () => {
+    expect(getNormalizationGain(undefined)).toBe(1);
+  });
+});
@@ -0,0 +1,149 @@
+import { LoudnessAnalysis } from '../types';
+
+// Clip loudness measurement and the gain that brings a clip to the board's target.
+// The loudness estimate follows ITU-R BS.1770 (K-weighting, 400 ms blocks, gating),
+// without true-peak oversampling or surround channel weights.
+
+// Floor for silent clips, so values stay finite (and survive JSON export)
+const SILENCE_DB = -120;
+// Never push a clip's peak above this
+const PEAK_CEILING_DB = -1;
+// Quiet clips aren't boosted more than this, however far below the target they are
+const MAX_BOOST_DB = 20;
+
+const BLOCK_SECONDS = 0.4;
+const BLOCK_OVERLAP = 0.75;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+// Board-wide target; null when normalization is off
+let targetLufs: number | null = null;
+
+export const setLoudnessTarget = (lufs: number | null) => {
+  targetLufs = lufs;
+};
+
+const toDb = (amplitude: number) => amplitude > 0 ? Math.max(20 * Math.log10(amplitude), SILENCE_DB) : SILENCE_DB;
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+interface Biquad { b0: number; b1: number; b2: number; a1: number; a2: number }
+
+// K-weighting stage 1: high shelf, about +4 dB above 1.5 kHz
+const highShelf = (sampleRate: number): Biquad => {
+  const A = Math.pow(10, 4 / 40);
+  const w0 = (2 * Math.PI * 1500) / sampleRate;
+  const alpha = Math.sin(w0) / (2 * Math.SQRT1_2);
+  const cos = Math.cos(w0);
+  const sqrtA = Math.sqrt(A);
+  const a0 = (A + 1) - (A - 1) * cos + 2 * sqrtA * alpha;
+  return {
+    b0: (A * ((A + 1) + (A - 1) * cos + 2 * sqrtA * alpha)) / a0,
+    b1: (-2 * A * ((A - 1) + (A + 1) * cos)) / a0,
+    b2: (A * ((A + 1) + (A - 1) * cos - 2 * sqrtA * alpha)) / a0,
+    a1: (2 * ((A - 1) - (A + 1) * cos)) / a0,
+    a2: ((A + 1) - (A - 1) * cos - 2 * sqrtA * alpha) / a0,
+  };
+};
+
+// K-weighting stage 2: high pass at 38 Hz
+const highPass = (sampleRate: number): Biquad => {
+  const w0 = (2 * Math.PI * 38) / sampleRate;
+  const alpha = Math.sin(w0) / (2 * 0.5);
+  const cos = Math.cos(w0);
+  const a0 = 1 + alpha;
+  return {
+    b0: (1 + cos) / 2 / a0,
+    b1: -(1 + cos) / a0,
+    b2: (1 + cos) / 2 / a0,
+    a1: (-2 * cos) / a0,
+    a2: (1 - alpha) / a0,
+  };
+};
+
+// Safe to run in place (output === input): each sample is read before it's overwritten
+const applyBiquad = (input: Float32Array, { b0, b1, b2, a1, a2 }: Biquad, output = new Float32Array(input.length)): Float32Array => {
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    output[i] = y;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+  }
+  return output;
+};
+
+const blockLoudness = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+// Integrated loudness of K-weighted channels
+const integratedLoudness = (weighted: Float32Array[], sampleRate: number): number => {
+  const length = weighted[0].length;
+  const blockSize = Math.min(Math.round(BLOCK_SECONDS * sampleRate), length);
+  const step = Math.max(Math.round(blockSize * (1 - BLOCK_OVERLAP)), 1);
+
+  // Mean square per block, summed over channels
+  const blocks: number[] = [];
+  for (let start = 0; start + blockSize <= length; start += step) {
+    let sum = 0;
+    weighted.forEach(channel => {
+      for (let i = start; i < start + blockSize; i++) sum += channel[i] * channel[i];
+    });
+    blocks.push(sum / blockSize);
+  }
+
+  const aboveAbsolute = blocks.filter(ms => ms > 0 && blockLoudness(ms) > ABSOLUTE_GATE_LUFS);
+  if (aboveAbsolute.length === 0) return SILENCE_DB;
+
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const relativeGate = blockLoudness(mean(aboveAbsolute)) + RELATIVE_GATE_LU;
+  const gated = aboveAbsolute.filter(ms => blockLoudness(ms) > relativeGate);
+  return Math.max(blockLoudness(mean(gated.length > 0 ? gated : aboveAbsolute)), SILENCE_DB);
+};
+
+export const analyzeLoudness = (buffer: AudioBuffer): LoudnessAnalysis => {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+
+  let peak = 0;
+  let sumSquares = 0;
+  channels.forEach(data => {
+    for (let i = 0; i < data.length; i++) {
+      const sample = data[i];
+      const abs = Math.abs(sample);
+      if (abs > peak) peak = abs;
+      sumSquares += sample * sample;
+    }
+  });
+  const sampleCount = channels.length * buffer.length;
+  const rms = sampleCount > 0 ? Math.sqrt(sumSquares / sampleCount) : 0;
+
+  let lufs = SILENCE_DB;
+  if (buffer.length > 0) {
+    const shelf = highShelf(buffer.sampleRate);
+    const pass = highPass(buffer.sampleRate);
+    const weighted = channels.map(data => {
+      const filtered = applyBiquad(data, shelf);
+      return applyBiquad(filtered, pass, filtered);
+    });
+    lufs = integratedLoudness(weighted, buffer.sampleRate);
+  }
+
+  return {
+    peak: round1(toDb(peak)),
+    rms: round1(toDb(rms)),
+    lufs: round1(lufs),
+  };
+};
+
+// Gain in dB that moves a clip to the target, held back so its peak stays under the ceiling
+export const getNormalizationDb = (loudness: LoudnessAnalysis | undefined, target: number | null = targetLufs): number => {
+  if (!loudness || target === null || loudness.lufs <= SILENCE_DB) return 0;
+  const toTarget = target - loudness.lufs;
+  if (toTarget <= 0) return toTarget;
+  const headroom = Math.max(PEAK_CEILING_DB - loudness.peak, 0);
+  return Math.min(toTarget, headroom, MAX_BOOST_DB);
+};
+
+// Linear gain for the playback chain; 1 when normalization is off or the clip isn't measured
+export const getNormalizationGain = (loudness: LoudnessAnalysis | undefined): number => {
+  return Math.pow(10, getNormalizationDb(loudness) / 20);
+};
@@ -0,0 +1,178 @@
+import { MidiBinding, MidiMappings, MidiMessageType, SoundPadData } from '../types';
+
+// Web MIDI input: parses note and CC messages from every connected input and
+// fans them out to subscribers, with a one-shot capture used by "MIDI learn".
+
+export interface MidiEvent {
+  binding: MidiBinding;
+  value: number; // Velocity for notes, controller value for CCs (0..127)
+  isOn: boolean; // Note on / CC at or above half way
+}
+
+export type MidiStatus = 'unsupported' | 'denied' | 'ready';
+
+type MidiListener = (event: MidiEvent) => void;
+type MidiInputsListener = (inputNames: string[]) => void;
+
+const listeners: Set<MidiListener> = new Set();
+const inputsListeners: Set<MidiInputsListener> = new Set();
+let midiAccess: MIDIAccess | null = null;
+let accessPromise: Promise<MidiStatus> | null = null;
+// While learning, the next note-on or CC goes here instead of to the listeners.
+// Only one control learns at a time; null tells a capture it was cancelled.
+let captureResolver: ((binding: MidiBinding | null) => void) | null = null;
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+export const formatMidiBinding = (binding: MidiBinding): string => {
+  const channel = `Ch ${binding.channel + 1}`;
+  if (binding.type === MidiMessageType.CC) return `CC ${binding.number} · ${channel}`;
+  const octave = Math.floor(binding.number / 12) - 1;
+  return `${NOTE_NAMES[binding.number % 12]}${octave} · ${channel}`;
+};
+
+export const isSameMidiBinding = (a?: MidiBinding, b?: MidiBinding): boolean => {
+  return !!a && !!b && a.type === b.type && a.channel === b.channel && a.number === b.number;
+};
+
+export const parseMidiMessage = (data: Uint8Array): MidiEvent | null => {
+  if (data.length < 3) return null;
+  const command = data[0] & 0xf0;
+  const channel = data[0] & 0x0f;
+  const number = data[1];
+  const value = data[2];
+
+  switch (command) {
+    case 0x90: // Note on (velocity 0 is a note off)
+      return { binding: { type: MidiMessageType.NOTE, channel, number }, value, isOn: value > 0 };
+    case 0x80: // Note off
+      return { binding: { type: MidiMessageType.NOTE, channel, number }, value: 0, isOn: false };
+    case 0xb0: // Control change
+      return { binding: { type: MidiMessageType.CC, channel, number }, value, isOn: value >= 64 };
+    default:
+      return null;
+  }
+};
+
+const handleMessage = (message: MIDIMessageEvent) => {
+  if (!message.data) return;
+  const event = parseMidiMessage(message.data);
+  if (!event) return;
+
+  if (captureResolver) {
+    // Learn on presses only; releases from the same gesture are swallowed
+    if (event.isOn || event.binding.type === MidiMessageType.CC) {
+      const resolve = captureResolver;
+      captureResolver = null;
+      resolve(event.binding);
+    }
+    return;
+  }
+
+  listeners.forEach(listener => listener(event));
+};
+
+const getInputNames = (): string[] => {
+  if (!midiAccess) return [];
+  return Array.from(midiAccess.inputs.values()).map(input => input.name || 'MIDI input');
+};
+
+// Attach to every input, including ones plugged in later
+const attachInputs = () => {
+  if (!midiAccess) return;
+  midiAccess.inputs.forEach(input => {
+    input.onmidimessage = handleMessage;
+  });
+  const names = getInputNames();
+  inputsListeners.forEach(listener => listener(names));
+};
+
+// Requests MIDI access once; safe to call repeatedly
+export const initMidi = (): Promise<MidiStatus> => {
+  if (accessPromise) return accessPromise;
+  if (!navigator.requestMIDIAccess) return Promise.resolve('unsupported');
+
+  accessPromise = navigator.requestMIDIAccess()
+    .then((access): MidiStatus => {
+      midiAccess = access;
+      access.onstatechange = attachInputs;
+      attachInputs();
+      return 'ready';
+    })
+    .catch((): MidiStatus => 'denied');
+  return accessPromise;
+};
+
+export const subscribeToMidi = (listener: MidiListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const subscribeToMidiInputs = (listener: MidiInputsListener): (() => void) => {
+  inputsListeners.add(listener);
+  listener(getInputNames());
+  return () => {
+    inputsListeners.delete(listener);
+  };
+};
+
+export interface MidiCapture {
+  binding: Promise<MidiBinding | null>; // Null if cancelled or taken over by another capture
+  cancel: () => void; // Only ends this capture, never a newer one
+}
+
+// Waits for the next note-on or CC received (MIDI learn). Starting a capture
+// cancels any other still waiting.
+export const captureNextMidiBinding = (): MidiCapture => {
+  captureResolver?.(null);
+  let resolver: (binding: MidiBinding | null) => void = () => {};
+  const binding = new Promise<MidiBinding | null>(resolve => {
+    resolver = resolve;
+  });
+  captureResolver = resolver;
+  return {
+    binding,
+    cancel: () => {
+      if (captureResolver !== resolver) return;
+      captureResolver = null;
+      resolver(null);
+    },
+  };
+};
+
+export const MIDI_MAPPING_LABELS: Record<keyof MidiMappings, string> = {
+  stopAll: 'Stop all sounds',
+  fade: 'Fade out all sounds',
+  masterVolume: 'Master volume',
+};
+
+// The board action already mapped to `binding`, if any
+export const findMidiMapping = (mappings: MidiMappings, binding: MidiBinding): keyof MidiMappings | undefined => {
+  return (Object.keys(MIDI_MAPPING_LABELS) as (keyof MidiMappings)[]).find(key => isSameMidiBinding(mappings[key], binding));
+};
+
+// Pads that would answer to the same MIDI binding as `pad`, with the same scope
+// rules as shortcuts: bank pads clash within their bank, global pads everywhere.
+export const findMidiConflicts = (
+  pads: SoundPadData[],
+  pad: Pick<SoundPadData, 'id' | 'bankId' | 'isGlobal'>,
+  binding: MidiBinding
+): SoundPadData[] => {
+  return pads.filter(p =>
+    p.id !== pad.id &&
+    isSameMidiBinding(p.midiBinding, binding) &&
+    (p.bankId === pad.bankId || p.isGlobal || pad.isGlobal)
+  );
+};
+
+// Pads bound to a MIDI message resolve like shortcuts: active bank first, then global pads
+export const findPadByMidiBinding = (
+  pads: SoundPadData[],
+  binding: MidiBinding,
+  activeBankId: string
+): SoundPadData | undefined => {
+  const loaded = pads.filter(p => p.audioBlob && isSameMidiBinding(p.midiBinding, binding));
+  return loaded.find(p => p.bankId === activeBankId) || loaded.find(p => p.isGlobal);
+};
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMicRecorder } from './recorder';
+
+// Just enough of MediaRecorder: every take is a single chunk, delivered on stop
+class FakeMediaRecorder {
+  static isTypeSupported = (type: string) => type === 'audio/ogg;codecs=opus';
+  state: RecordingState = 'inactive';
+  mimeType: string;
+  ondataavailable: ((e: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor(_stream: MediaStream, options?: { mimeType?: string }) {
+    this.mimeType = options?.mimeType ?? '';
+  }
+
+  start() {
+    this.state = 'recording';
+  }
+
+  stop() {
+    this.state = 'inactive';
+    this.ondataavailable?.({ data: new Blob(['take']) });
+    this.onstop?.();
+  }
+}
+
+const fakeStream = () => {
+  const track = { stop: vi.fn() };
+  const stream = { getTracks: () => [track] } as unknown as MediaStream;
+  return { stream, track };
+};
+
+const fakeContext = (peak = 0.5) => {
+  const source = { connect: vi.fn(), disconnect: vi.fn() };
+  const analyser = {
+    fftSize: 0,
+    getFloatTimeDomainData: (data: Float32Array) => {
+      data.fill(0);
+      data[1] = -peak;
+    },
+  };
+  const context = {
+    state: 'running',
+    resume: vi.fn(),
+    createMediaStreamSource: vi.fn(() => source),
+    createAnalyser: () => analyser,
+  } as unknown as AudioContext;
+  return { context, source };
+};
+
+describe('createMicRecorder', () => {
+  beforeEach(() => {
+    vi.stubGlobal('MediaRecorder', FakeMediaRecorder);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('opens the stream once and meters it', async () => {
+    const { stream } = fakeStream();
+    const getStream = vi.fn(async () => stream);
+    const { context } = fakeContext(0.5);
+    const recorder = createMicRecorder({ getStream, getContext: () => context });
+
+    expect(recorder.getLevel()).toBe(0);
+    await recorder.open();
+    await recorder.open();
+
+    expect(getStream).toHaveBeenCalledTimes(1);
+    expect(recorder.getLevel()).toBe(0.5);
+  });
+
+  it('passes on a refused microphone', async () => {
+    const denied = Object.assign(new Error('Permission denied'), { name: 'NotAllowedError' });
+    const recorder = createMicRecorder({ getStream: () => Promise.reject(denied), getContext: () => fakeContext().context });
+
+    await expect(recorder.open()).rejects.toBe(denied);
+    expect(() => recorder.start()).toThrow('Microphone is not open');
+  });
+
+  it('returns the take when stopped', async () => {
+    const { stream } = fakeStream();
+    const recorder = createMicRecorder({ getStream: async () => stream, getContext: () => fakeContext().context });
+
+    await recorder.open();
+    recorder.start();
+    expect(recorder.isRecording()).toBe(true);
+
+    const blob = await recorder.stop();
+    expect(await blob.text()).toBe('take');
+    expect(blob.type).toBe('audio/ogg;codecs=opus');
+    expect(recorder.isRecording()).toBe(false);
+    await expect(recorder.stop()).rejects.toThrow('Not recording');
+  });
+
+  it('releases the microphone and drops an unfinished take on close', async () => {
+    const { stream, track } = fakeStream();
+    const { context, source } = fakeContext();
+    const recorder = createMicRecorder({ getStream: async () => stream, getContext: () => context });
+
+    await recorder.open();
+    recorder.start();
+    recorder.close();
+
+    expect(recorder.isRecording()).toBe(false);
+    expect(track.stop).toHaveBeenCalled();
+    expect(source.disconnect).toHaveBeenCalled();
+    expect(recorder.getLevel()).toBe(0);
+    await expect(recorder.stop()).rejects.toThrow('Not recording');
+  });
+});
@@ -0,0 +1,109 @@
+import { getAudioContext } from './audio';
+
+// Microphone recording behind a small interface. The stream source is injectable,
+// so tests can hand in a fake MediaStream instead of going through getUserMedia.
+
+export interface MicRecorder {
+  open: () => Promise<void>; // Acquire the stream and start metering (asks for permission)
+  start: () => void; // Begin capturing; requires open()
+  stop: () => Promise<Blob>; // Finish capturing and return the recording
+  close: () => void; // Release the microphone
+  getLevel: () => number; // Current peak input level, 0..1
+  isRecording: () => boolean;
+}
+
+export interface MicRecorderOptions {
+  getStream?: () => Promise<MediaStream>;
+  getContext?: () => AudioContext;
+}
+
+// Preferred container, most compact first; the browser default is used if none match
+const PREFERRED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+export const getSupportedMimeType = (): string | undefined => {
+  if (typeof MediaRecorder === 'undefined' || !MediaRecorder.isTypeSupported) return undefined;
+  return PREFERRED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+};
+
+const getMicrophoneStream = () => navigator.mediaDevices.getUserMedia({ audio: true });
+
+export const createMicRecorder = ({
+  getStream = getMicrophoneStream,
+  getContext = getAudioContext,
+}: MicRecorderOptions = {}): MicRecorder => {
+  let stream: MediaStream | null = null;
+  let sourceNode: MediaStreamAudioSourceNode | null = null;
+  let analyser: AnalyserNode | null = null;
+  let levelData: Float32Array | null = null;
+  let mediaRecorder: MediaRecorder | null = null;
+  let chunks: Blob[] = [];
+
+  const open = async () => {
+    if (stream) return;
+    stream = await getStream();
+
+    // Meter only: the analyser is not connected to the speakers, so there's no feedback
+    const ctx = getContext();
+    if (ctx.state === 'suspended') await ctx.resume();
+    sourceNode = ctx.createMediaStreamSource(stream);
+    analyser = ctx.createAnalyser();
+    analyser.fftSize = 1024;
+    levelData = new Float32Array(analyser.fftSize);
+    sourceNode.connect(analyser);
+  };
+
+  const start = () => {
+    if (!stream) throw new Error('Microphone is not open');
+    if (mediaRecorder?.state === 'recording') return;
+
+    chunks = [];
+    const mimeType = getSupportedMimeType();
+    mediaRecorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    mediaRecorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    mediaRecorder.start();
+  };
+
+  const stop = () => {
+    return new Promise<Blob>((resolve, reject) => {
+      const recorder = mediaRecorder;
+      if (!recorder || recorder.state === 'inactive') {
+        reject(new Error('Not recording'));
+        return;
+      }
+      recorder.onstop = () => resolve(new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }));
+      recorder.onerror = () => reject(new Error('Recording failed'));
+      recorder.stop();
+    });
+  };
+
+  const close = () => {
+    if (mediaRecorder && mediaRecorder.state !== 'inactive') {
+      mediaRecorder.onstop = null;
+      mediaRecorder.stop();
+    }
+    mediaRecorder = null;
+    sourceNode?.disconnect();
+    sourceNode = null;
+    analyser = null;
+    levelData = null;
+    stream?.getTracks().forEach(track => track.stop());
+    stream = null;
+  };
+
+  const getLevel = () => {
+    if (!analyser || !levelData) return 0;
+    analyser.getFloatTimeDomainData(levelData);
+    let peak = 0;
+    for (let i = 0; i < levelData.length; i++) {
+      const sample = Math.abs(levelData[i]);
+      if (sample > peak) peak = sample;
+    }
+    return Math.min(1, peak);
+  };
+
+  const isRecording = () => mediaRecorder?.state === 'recording';
+
+  return { open, start, stop, close, getLevel, isRecording };
+};
@@ -0,0 +1,124 @@
+import { SessionFormat } from '../types';
+import { encodeWav, getAudioContext, getAudioTime, subscribeToVoices, tapMasterOutput } from './audio';
+import { getSupportedMimeType } from './recorder';
+
+// Records the board's output for a whole show, with a cue log of every voice
+// that started while recording. One session at a time.
+
+export interface SessionCue {
+  time: number; // Seconds from the start of the recording
+  padId?: string;
+  name: string;
+}
+
+export interface SessionRecording {
+  audio: Blob;
+  extension: string; // File extension matching the audio type
+  isFallback: boolean; // WAV was asked for but the conversion failed, so this is the original take
+  cues: SessionCue[];
+  startedAt: Date;
+}
+
+interface Session {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  cues: SessionCue[];
+  startTime: number; // Audio clock
+  startedAt: Date;
+  release: () => void;
+  unsubscribe: () => void;
+}
+
+let session: Session | null = null;
+
+export const isSessionRecording = () => session !== null;
+
+export const getSessionElapsed = () => session ? getAudioTime() - session.startTime : 0;
+
+// getPadName labels cues; it's called as each voice starts, so renames later don't matter
+export const startSession = async (getPadName: (padId?: string) => string): Promise<void> => {
+  if (session) return;
+  if (typeof MediaRecorder === 'undefined') {
+    throw new Error('This browser cannot record audio.');
+  }
+
+  const ctx = getAudioContext();
+  if (ctx.state === 'suspended') await ctx.resume();
+
+  const { stream, release } = tapMasterOutput();
+  const mimeType = getSupportedMimeType();
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+
+  const cues: SessionCue[] = [];
+  const startTime = ctx.currentTime;
+  const seenVoices = new Set<number>();
+  const unsubscribe = subscribeToVoices(voices => {
+    voices.forEach(voice => {
+      if (seenVoices.has(voice.id)) return;
+      seenVoices.add(voice.id);
+      cues.push({
+        time: Math.max(voice.startedAt - startTime, 0),
+        padId: voice.padId,
+        name: getPadName(voice.padId),
+      });
+    });
+  });
+
+  // Regular chunks, so a crash late in a long show doesn't lose everything held in the recorder
+  recorder.start(1000);
+  session = { recorder, chunks, cues, startTime, startedAt: new Date(), release, unsubscribe };
+};
+
+export const stopSession = async (format: SessionFormat): Promise<SessionRecording | null> => {
+  const current = session;
+  if (!current) return null;
+  session = null;
+  current.unsubscribe();
+
+  const { recorder } = current;
+  const webm = await new Promise<Blob>((resolve, reject) => {
+    recorder.onstop = () => resolve(new Blob(current.chunks, { type: recorder.mimeType || 'audio/webm' }));
+    recorder.onerror = () => reject(new Error('Recording failed'));
+    recorder.stop();
+  });
+  current.release();
+
+  let audio = webm;
+  let extension = webm.type.includes('ogg') ? 'ogg' : webm.type.includes('mp4') ? 'm4a' : 'webm';
+  let isFallback = false;
+  if (format === SessionFormat.WAV) {
+    // Decoded outside the buffer cache: the whole session sits in memory once, so
+    // very long shows are better kept as WebM
+    try {
+      audio = encodeWav(await getAudioContext().decodeAudioData(await webm.arrayBuffer()));
+      extension = 'wav';
+    } catch (e) {
+      // Never lose the show over the conversion: hand back the take as recorded
+      console.error("Failed to convert session recording to WAV", e);
+      isFallback = true;
+    }
+  }
+
+  return { audio, extension, isFallback, cues: current.cues, startedAt: current.startedAt };
+};
+
+const formatCueTime = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = (seconds % 60).toFixed(3).padStart(6, '0');
+  return `${h}:${m.toString().padStart(2, '0')}:${s}`;
+};
+
+// The cue log as CSV: time into the recording, wall-clock time and pad
+export const formatCueSheet = (recording: SessionRecording): string => {
+  const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+  const rows = recording.cues.map(cue => {
+    const wallClock = new Date(recording.startedAt.getTime() + cue.time * 1000).toISOString();
+    return [formatCueTime(cue.time), wallClock, quote(cue.name), quote(cue.padId || '')].join(',');
+  });
+  return ['Time,Wall clock,Pad,Pad id', ...rows].join('\n') + '\n';
+};
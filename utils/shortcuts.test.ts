@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import { PadColor, SoundPadData } from '../types';
+import {
+  convertLegacyShortcut,
+  findReservedShortcut,
+  findShortcutConflicts,
+  formatShortcutLabel,
+  getEventShortcut,
+  matchShortcutStep,
+  MAX_CHORD_STEPS,
+  normalizeShortcut,
+  parseShortcut,
+  shortcutsClash,
+  ShortcutAction,
+} from './shortcuts';
+
+const keyEvent = (code: string, key: string, modifiers: Partial<Record<'ctrlKey' | 'shiftKey' | 'altKey' | 'metaKey', boolean>> = {}) => ({
+  code,
+  key,
+  ctrlKey: false,
+  shiftKey: false,
+  altKey: false,
+  metaKey: false,
+  ...modifiers,
+});
+
+const pad = (id: string, bankId: string, shortcut?: string, isGlobal?: boolean): SoundPadData => ({
+  id,
+  bankId,
+  name: id,
+  color: PadColor.SLATE,
+  volume: 1,
+  shortcut,
+  isGlobal,
+});
+
+describe('parsing shortcuts', () => {
+  it('splits chords into steps with their modifiers', () => {
+    expect(parseShortcut('Ctrl+Shift+KeyK')).toEqual([{ modifiers: ['Ctrl', 'Shift'], code: 'KeyK' }]);
+    expect(parseShortcut('KeyG Digit3')).toEqual([
+      { modifiers: [], code: 'KeyG' },
+      { modifiers: [], code: 'Digit3' },
+    ]);
+  });
+
+  it('rejects steps without a key', () => {
+    expect(parseShortcut('')).toBeNull();
+    expect(parseShortcut('Ctrl+Shift')).toBeNull();
+    expect(parseShortcut('KeyG Ctrl')).toBeNull();
+  });
+
+  it('normalizes modifier order and aliases', () => {
+    expect(normalizeShortcut('shift+ctrl+KeyK')).toBe('Ctrl+Shift+KeyK');
+    expect(normalizeShortcut('cmd+option+KeyP')).toBe('Alt+Meta+KeyP');
+    expect(normalizeShortcut('  KeyG   Digit3 ')).toBe('KeyG Digit3');
+    expect(normalizeShortcut('esc')).toBe('Escape');
+    expect(normalizeShortcut('Ctrl')).toBe('');
+  });
+});
+
+describe('getEventShortcut', () => {
+  it('uses the physical key, not the printed character', () => {
+    expect(getEventShortcut(keyEvent('Digit1', '!', { shiftKey: true }))).toBe('Shift+Digit1');
+    expect(getEventShortcut(keyEvent('KeyQ', 'a'))).toBe('KeyQ');
+    expect(getEventShortcut(keyEvent('KeyK', 'k', { metaKey: true, ctrlKey: true }))).toBe('Ctrl+Meta+KeyK');
+  });
+
+  it('ignores modifiers pressed on their own', () => {
+    expect(getEventShortcut(keyEvent('ShiftLeft', 'Shift', { shiftKey: true }))).toBeNull();
+    expect(getEventShortcut(keyEvent('', 'Unidentified'))).toBeNull();
+  });
+});
+
+describe('formatShortcutLabel', () => {
+  it('labels keys and chords for people', () => {
+    expect(formatShortcutLabel('Ctrl+KeyK')).toBe('Ctrl+K');
+    expect(formatShortcutLabel('KeyG Digit3')).toBe('G then 3');
+    expect(formatShortcutLabel('Shift+Escape')).toBe('Shift+Esc');
+  });
+});
+
+describe('convertLegacyShortcut', () => {
+  it('maps KeyboardEvent.key combos to key codes on a US layout', () => {
+    expect(convertLegacyShortcut('a')).toBe('KeyA');
+    expect(convertLegacyShortcut('Shift+!')).toBe('Shift+Digit1');
+    expect(convertLegacyShortcut('Ctrl+K')).toBe('Ctrl+KeyK');
+    expect(convertLegacyShortcut('Shift+?')).toBe('Shift+Slash');
+    expect(convertLegacyShortcut('Space')).toBe('Space');
+    expect(convertLegacyShortcut('F5')).toBe('F5');
+  });
+
+  it('treats a trailing plus as the plus key', () => {
+    expect(convertLegacyShortcut('Shift++')).toBe('Shift+Equal');
+  });
+
+  it('gives up on characters a US layout has no key for', () => {
+    expect(convertLegacyShortcut('é')).toBeUndefined();
+    expect(convertLegacyShortcut('')).toBeUndefined();
+  });
+});
+
+describe('chords', () => {
+  it('clash when equal or when one starts the other', () => {
+    expect(shortcutsClash('KeyG', 'KeyG')).toBe(true);
+    expect(shortcutsClash('KeyG', 'KeyG Digit3')).toBe(true);
+    expect(shortcutsClash('KeyG Digit3', 'KeyG')).toBe(true);
+    expect(shortcutsClash('KeyG Digit3', 'KeyG Digit4')).toBe(false);
+    expect(shortcutsClash('KeyG', 'Shift+KeyG')).toBe(false);
+  });
+
+  it('match once every step has been pressed', () => {
+    const bindings = ['KeyG Digit3', 'KeyA'];
+    const first = matchShortcutStep([], 'KeyG', bindings);
+    expect(first).toEqual({ match: null, pending: ['KeyG'] });
+    expect(matchShortcutStep(first.pending, 'Digit3', bindings)).toEqual({ match: 'KeyG Digit3', pending: [] });
+  });
+
+  it('start over from a key that breaks the pending chord', () => {
+    const bindings = ['KeyG Digit3', 'KeyA'];
+    expect(matchShortcutStep(['KeyG'], 'KeyA', bindings)).toEqual({ match: 'KeyA', pending: [] });
+    expect(matchShortcutStep(['KeyG'], 'KeyG', bindings)).toEqual({ match: null, pending: ['KeyG'] });
+    expect(matchShortcutStep(['KeyG'], 'KeyZ', bindings)).toEqual({ match: null, pending: [] });
+  });
+
+  it(`never wait beyond ${MAX_CHORD_STEPS} steps`, () => {
+    const bindings = ['KeyA KeyB KeyC KeyD'];
+    expect(matchShortcutStep(['KeyA', 'KeyB'], 'KeyC', bindings)).toEqual({ match: null, pending: [] });
+  });
+});
+
+describe('findReservedShortcut', () => {
+  it('finds board shortcuts a pad binding would shadow', () => {
+    expect(findReservedShortcut('Escape')?.action).toBe(ShortcutAction.STOP_ALL);
+    expect(findReservedShortcut('ctrl+KeyZ')?.action).toBe(ShortcutAction.UNDO);
+    // A chord starting with a reserved key could never be reached
+    expect(findReservedShortcut('PageDown KeyA')?.action).toBe(ShortcutAction.NEXT_BANK);
+    expect(findReservedShortcut('KeyA')).toBeUndefined();
+  });
+
+  it('marks keys that are only reserved in context', () => {
+    expect(findReservedShortcut('Space')?.context).toBeTruthy();
+    expect(findReservedShortcut('Escape')?.context).toBeUndefined();
+  });
+});
+
+describe('findShortcutConflicts', () => {
+  const pads = [
+    pad('pad-0', 'bank-a', 'KeyA'),
+    pad('bank-b-pad-0', 'bank-b', 'KeyA'),
+    pad('bank-b-pad-1', 'bank-b', 'KeyG Digit3'),
+    pad('bank-c-pad-0', 'bank-c', 'KeyQ', true),
+  ];
+
+  it('only looks within the bank for bank pads', () => {
+    expect(findShortcutConflicts(pads, pad('pad-1', 'bank-a'), 'KeyA').map(p => p.id)).toEqual(['pad-0']);
+    expect(findShortcutConflicts(pads, pad('bank-b-pad-2', 'bank-b'), 'KeyG').map(p => p.id)).toEqual(['bank-b-pad-1']);
+  });
+
+  it('looks everywhere for global pads and against global pads', () => {
+    expect(findShortcutConflicts(pads, pad('pad-1', 'bank-a', undefined, true), 'KeyA').map(p => p.id)).toEqual(['pad-0', 'bank-b-pad-0']);
+    expect(findShortcutConflicts(pads, pad('pad-1', 'bank-a'), 'KeyQ').map(p => p.id)).toEqual(['bank-c-pad-0']);
+  });
+
+  it('ignores the pad being edited', () => {
+    expect(findShortcutConflicts(pads, pad('pad-0', 'bank-a'), 'KeyA')).toEqual([]);
+  });
+});
@@ -0,0 +1,275 @@
+import { SoundPadData } from '../types';
+
+// Keyboard shortcuts: one format for recording, matching and display, plus the
+// app-level bindings pads can't take.
+//
+// A shortcut is one or more steps separated by spaces. Each step is modifier
+// names in a fixed order followed by a physical key code (KeyboardEvent.code),
+// e.g. "Ctrl+Shift+KeyK", or the chord "KeyG Digit3" (G, then 3). Codes don't
+// change with the keyboard layout or Shift, so a binding means the same key
+// everywhere; formatShortcutLabel shows what that key prints on this layout.
+
+const MODIFIERS = ['Ctrl', 'Shift', 'Alt', 'Meta'] as const;
+type Modifier = typeof MODIFIERS[number];
+
+const MODIFIER_KEYS = ['Control', 'Shift', 'Alt', 'Meta', 'AltGraph', 'OS'];
+
+// A chord's next key must follow within this long
+export const CHORD_TIMEOUT_MS = 1000;
+export const MAX_CHORD_STEPS = 3;
+
+// Other spellings seen in typed combos
+const ALIASES: Record<string, string> = {
+  control: 'Ctrl',
+  ctrl: 'Ctrl',
+  shift: 'Shift',
+  alt: 'Alt',
+  option: 'Alt',
+  meta: 'Meta',
+  cmd: 'Meta',
+  command: 'Meta',
+  esc: 'Escape',
+};
+
+export interface ParsedShortcutStep {
+  modifiers: Modifier[];
+  code: string;
+}
+
+const isModifier = (part: string): part is Modifier => (MODIFIERS as readonly string[]).includes(part);
+
+const formatStep = ({ modifiers, code }: ParsedShortcutStep): string => {
+  return [...MODIFIERS.filter(m => modifiers.includes(m)), code].join('+');
+};
+
+const parseStep = (step: string): ParsedShortcutStep | null => {
+  const parts = step.split('+').map(part => ALIASES[part.toLowerCase()] || part).filter(Boolean);
+  const code = parts[parts.length - 1];
+  if (!code || isModifier(code)) return null;
+  return { modifiers: parts.slice(0, -1).filter(isModifier), code };
+};
+
+// Splits a stored or typed shortcut into its steps; null if any step has no key
+export const parseShortcut = (shortcut: string): ParsedShortcutStep[] | null => {
+  const steps = shortcut.trim().split(/\s+/).filter(Boolean).map(parseStep);
+  if (steps.length === 0 || steps.some(step => !step)) return null;
+  return steps as ParsedShortcutStep[];
+};
+
+// Canonical form, so "shift+ctrl+KeyK" and "Ctrl+Shift+KeyK" match; '' if it isn't a shortcut
+export const normalizeShortcut = (shortcut: string): string => {
+  const steps = parseShortcut(shortcut);
+  return steps ? steps.map(formatStep).join(' ') : '';
+};
+
+// The step a key press makes; null for a modifier pressed on its own
+export const getEventShortcut = (e: Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'shiftKey' | 'altKey' | 'metaKey'>): string | null => {
+  if (MODIFIER_KEYS.includes(e.key) || !e.code) return null;
+
+  const modifiers: Modifier[] = [];
+  if (e.ctrlKey) modifiers.push('Ctrl');
+  if (e.shiftKey) modifiers.push('Shift');
+  if (e.altKey) modifiers.push('Alt');
+  if (e.metaKey) modifiers.push('Meta');
+  return formatStep({ modifiers, code: e.code });
+};
+
+// Printed characters of the US layout, by code. Used for labels when the browser
+// can't report the real layout, and to read shortcuts saved before codes were used.
+const US_CODES: Record<string, { key: string; shifted: string }> = {
+  Backquote: { key: '`', shifted: '~' },
+  Digit1: { key: '1', shifted: '!' },
+  Digit2: { key: '2', shifted: '@' },
+  Digit3: { key: '3', shifted: '#' },
+  Digit4: { key: '4', shifted: '$' },
+  Digit5: { key: '5', shifted: '%' },
+  Digit6: { key: '6', shifted: '^' },
+  Digit7: { key: '7', shifted: '&' },
+  Digit8: { key: '8', shifted: '*' },
+  Digit9: { key: '9', shifted: '(' },
+  Digit0: { key: '0', shifted: ')' },
+  Minus: { key: '-', shifted: '_' },
+  Equal: { key: '=', shifted: '+' },
+  BracketLeft: { key: '[', shifted: '{' },
+  BracketRight: { key: ']', shifted: '}' },
+  Backslash: { key: '\\', shifted: '|' },
+  Semicolon: { key: ';', shifted: ':' },
+  Quote: { key: "'", shifted: '"' },
+  Comma: { key: ',', shifted: '<' },
+  Period: { key: '.', shifted: '>' },
+  Slash: { key: '/', shifted: '?' },
+};
+
+const SPECIAL_LABELS: Record<string, string> = {
+  Escape: 'Esc',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  PageUp: 'PgUp',
+  PageDown: 'PgDn',
+  Backspace: '⌫',
+  Enter: '↵',
+  NumpadEnter: 'Num ↵',
+};
+
+// The browser's layout map (code -> printed key), when it offers one
+let layoutMap: Map<string, string> | null = null;
+
+interface KeyboardLayoutApi {
+  getLayoutMap: () => Promise<Map<string, string>>;
+}
+
+// Call once at startup; labels fall back to the US layout until (or unless) it resolves
+export const loadKeyboardLayout = async (): Promise<void> => {
+  const keyboard = (navigator as Navigator & { keyboard?: KeyboardLayoutApi }).keyboard;
+  if (!keyboard?.getLayoutMap) return;
+  try {
+    layoutMap = await keyboard.getLayoutMap();
+  } catch (e) {
+    // Not allowed in some frames; the fallback labels still work
+    console.warn("Keyboard layout unavailable", e);
+  }
+};
+
+const getKeyLabel = (code: string): string => {
+  const printed = layoutMap?.get(code);
+  if (printed && printed.trim()) return printed.toUpperCase();
+  if (SPECIAL_LABELS[code]) return SPECIAL_LABELS[code];
+  if (US_CODES[code]) return US_CODES[code].key;
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  if (code.startsWith('Numpad')) return `Num ${code.slice(6)}`;
+  return code;
+};
+
+// What to show the user, e.g. "Ctrl+K" or "G then 3"
+export const formatShortcutLabel = (shortcut: string): string => {
+  const steps = parseShortcut(shortcut);
+  if (!steps) return shortcut;
+  return steps.map(({ modifiers, code }) => [...modifiers, getKeyLabel(code)].join('+')).join(' then ');
+};
+
+// Converts a shortcut saved in the old format, built from KeyboardEvent.key
+// (e.g. "Shift+!", "Ctrl+K"), assuming it was recorded on a US layout.
+// Returns undefined for keys that have no code equivalent. Old board exports
+// depend on this, so don't change what it returns. (Database migration 6 keeps
+// its own frozen copy.)
+export const convertLegacyShortcut = (legacy: string): string | undefined => {
+  // A trailing "+" is the plus key itself, not a separator
+  const parts = legacy.trim().split(/\+(?!$)/);
+  const key = parts[parts.length - 1];
+  const modifiers = parts.slice(0, -1).map(part => ALIASES[part.toLowerCase()] || part).filter(isModifier);
+  if (!key) return undefined;
+
+  let code: string | undefined;
+  if (/^[A-Za-z]$/.test(key)) code = `Key${key.toUpperCase()}`;
+  else if (key === 'Space' || key === ' ') code = 'Space';
+  else if (key.length === 1) {
+    code = Object.keys(US_CODES).find(c => US_CODES[c].key === key || US_CODES[c].shifted === key);
+  } else {
+    // Named keys (Enter, F5, ArrowUp, ...) share their name with their code
+    code = key;
+  }
+  return code ? formatStep({ modifiers, code }) : undefined;
+};
+
+// Two shortcuts clash when they're equal or one is the start of the other's
+// chord: the shorter one always fires first, so the longer can never be reached.
+export const shortcutsClash = (a: string, b: string): boolean => {
+  return a === b || a.startsWith(`${b} `) || b.startsWith(`${a} `);
+};
+
+export interface ShortcutMatch {
+  match: string | null; // Binding completed by this key press
+  pending: string[]; // Steps of a chord still waiting for its next key
+}
+
+// Feeds one key press to the chord matcher. A press that doesn't continue the
+// pending chord starts over from that press.
+export const matchShortcutStep = (pending: string[], step: string, bindings: string[]): ShortcutMatch => {
+  const tryFrom = (steps: string[]): ShortcutMatch | null => {
+    const shortcut = steps.join(' ');
+    if (bindings.includes(shortcut)) return { match: shortcut, pending: [] };
+    if (steps.length < MAX_CHORD_STEPS && bindings.some(b => b.startsWith(`${shortcut} `))) {
+      return { match: null, pending: steps };
+    }
+    return null;
+  };
+  return tryFrom([...pending, step]) || (pending.length > 0 ? tryFrom([step]) : null) || { match: null, pending: [] };
+};
+
+export enum ShortcutAction {
+  STOP_ALL = 'stopAll',
+  FADE = 'fade',
+  PREVIOUS_BANK = 'previousBank',
+  NEXT_BANK = 'nextBank',
+  JUMP_TO_BANK = 'jumpToBank',
+  CUE_GO = 'cueGo',
+  CHEAT_SHEET = 'cheatSheet',
+  UNDO = 'undo',
+  REDO = 'redo',
+}
+
+export interface ReservedShortcut {
+  action: ShortcutAction;
+  combos: string[];
+  label: string;
+  // Only reserved in some situations, so pads may still use it (they lose out while it's active)
+  context?: string;
+}
+
+export const RESERVED_SHORTCUTS: ReservedShortcut[] = [
+  { action: ShortcutAction.STOP_ALL, combos: ['Escape'], label: 'Stop all sounds' },
+  { action: ShortcutAction.FADE, combos: ['Shift+Escape'], label: 'Fade out all sounds' },
+  { action: ShortcutAction.PREVIOUS_BANK, combos: ['PageUp'], label: 'Previous bank' },
+  { action: ShortcutAction.NEXT_BANK, combos: ['PageDown'], label: 'Next bank' },
+  {
+    action: ShortcutAction.JUMP_TO_BANK,
+    combos: Array.from({ length: 9 }, (_, i) => `Alt+Digit${i + 1}`),
+    label: 'Jump to bank 1-9',
+  },
+  { action: ShortcutAction.CUE_GO, combos: ['Space'], label: 'GO', context: 'while the cue list is open' },
+  { action: ShortcutAction.CHEAT_SHEET, combos: ['Shift+Slash'], label: 'Show shortcuts' },
+  { action: ShortcutAction.UNDO, combos: ['Ctrl+KeyZ', 'Meta+KeyZ'], label: 'Undo' },
+  { action: ShortcutAction.REDO, combos: ['Ctrl+Shift+KeyZ', 'Shift+Meta+KeyZ', 'Ctrl+KeyY'], label: 'Redo' },
+];
+
+// The reserved binding a shortcut would get in the way of, if any
+export const findReservedShortcut = (shortcut: string): ReservedShortcut | undefined => {
+  const normalized = normalizeShortcut(shortcut);
+  return RESERVED_SHORTCUTS.find(r => r.combos.some(combo => shortcutsClash(combo, normalized)));
+};
+
+// Pads that would compete with `pad` for a shortcut. Bank shortcuts only clash within
+// their bank; a global pad clashes with every pad that uses the same keys.
+export const findShortcutConflicts = (
+  pads: SoundPadData[],
+  pad: Pick<SoundPadData, 'id' | 'bankId' | 'isGlobal'>,
+  shortcut: string
+): SoundPadData[] => {
+  const normalized = normalizeShortcut(shortcut);
+  if (!normalized) return [];
+  return pads.filter(p =>
+    p.id !== pad.id &&
+    !!p.shortcut && shortcutsClash(p.shortcut, normalized) &&
+    (p.bankId === pad.bankId || p.isGlobal || pad.isGlobal)
+  );
+};
+
+// Shortcuts resolve against the active bank first, then global pads on other banks
+export const findPadByShortcut = (
+  pads: SoundPadData[],
+  shortcut: string,
+  activeBankId: string
+): SoundPadData | undefined => {
+  const loaded = pads.filter(p => p.shortcut === shortcut && p.audioBlob);
+  return loaded.find(p => p.bankId === activeBankId) || loaded.find(p => p.isGlobal);
+};
+
+// Every shortcut that can fire right now: active bank pads and global pads
+export const getActivePadShortcuts = (pads: SoundPadData[], activeBankId: string): string[] => {
+  return pads
+    .filter(p => p.shortcut && p.audioBlob && (p.bankId === activeBankId || p.isGlobal))
+    .map(p => p.shortcut as string);
+};
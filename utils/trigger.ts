@@ -0,0 +1,47 @@
+import { SoundPadData, TriggerMode } from '../types';
+import { playAudioBlob, getPadPlaybackOptions, VoiceHandle } from './audio';
+
+// The voice each pad last started, so toggles and gates can stop that specific voice.
+// Stored as promises because decoding is async: a gate released before its voice
+// has started still stops it once it does.
+const padVoices: Map<string, Promise<VoiceHandle | null>> = new Map();
+
+const startPadVoice = (pad: SoundPadData, volumeScale: number) => {
+  if (!pad.audioBlob) return;
+  const voice = playAudioBlob(pad.audioBlob, pad.volume * volumeScale, getPadPlaybackOptions(pad));
+  padVoices.set(pad.id, voice);
+};
+
+// Called when a pad is pressed (pointer down, key down, ...).
+// volumeScale lets velocity-sensitive controllers play a pad quieter.
+export const pressPad = async (pad: SoundPadData, volumeScale = 1): Promise<void> => {
+  if (!pad.audioBlob) return;
+  const mode = pad.triggerMode || TriggerMode.ONE_SHOT;
+
+  if (mode === TriggerMode.TOGGLE || mode === TriggerMode.LOOP) {
+    const existing = padVoices.get(pad.id);
+    if (existing) {
+      padVoices.delete(pad.id);
+      const handle = await existing;
+      // A second press stops the latched voice; if it already ended, start again
+      if (handle?.isPlaying()) {
+        handle.stop();
+        return;
+      }
+    }
+  }
+
+  startPadVoice(pad, volumeScale);
+};
+
+// Called when a pad is released (pointer up, key up, ...). Only gates react to it.
+export const releasePad = async (pad: SoundPadData): Promise<void> => {
+  if (pad.triggerMode !== TriggerMode.GATE) return;
+
+  const existing = padVoices.get(pad.id);
+  if (!existing) return;
+  padVoices.delete(pad.id);
+
+  const handle = await existing;
+  handle?.stop();
+};